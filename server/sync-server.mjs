@@ -0,0 +1,219 @@
+#!/usr/bin/env node
+/**
+ * Sync server for Events Tracker: a single JSON file of events, each with its own version.
+ * No dependencies, so it runs on any Node 18+ machine:
+ *
+ *   npm run sync-server                        # http://127.0.0.1:8787, data in server/data/events.json
+ *   PORT=9000 SYNC_DATA=/srv/events.json SYNC_TOKEN=secret node server/sync-server.mjs
+ *
+ * It only listens on this machine unless HOST says otherwise (HOST=0.0.0.0 for the whole network),
+ * and then refuses to start without SYNC_TOKEN. Browsers may call it from localhost pages; other
+ * origins the app is served from go in SYNC_ORIGINS (comma-separated).
+ *
+ * API (JSON over HTTP):
+ *   GET  /api/health               → { ok, seq }
+ *   GET  /api/changes?since=<seq>  → { seq, changes: [{ id, version, row }] }   row null = deleted
+ *   POST /api/push { changes: [{ id, base, row }] }
+ *                                  → { seq, applied: [{ id, version }], conflicts: [{ id, version, row }] }
+ *
+ * A pushed change only applies when `base` is the version the server holds (0 for a new event);
+ * otherwise it comes back as a conflict with the server's copy and the client decides.
+ */
+import { createServer } from "node:http";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+
+const PORT = Number(process.env.PORT || 8787);
+const HOST = process.env.HOST || "127.0.0.1";
+const FILE = resolve(process.env.SYNC_DATA || "server/data/events.json");
+const TOKEN = process.env.SYNC_TOKEN || "";
+const ORIGINS = (process.env.SYNC_ORIGINS || "").split(",").map((o) => o.trim()).filter(Boolean);
+const MAX_BODY = 20 * 1024 * 1024;
+
+const LOOPBACK = ["127.0.0.1", "::1", "localhost"];
+const isLoopback = (host) => LOOPBACK.includes(host.replace(/^\[|\]$/g, ""));
+if (!isLoopback(HOST) && !TOKEN) {
+  console.error(`Refusing to listen on ${HOST} without SYNC_TOKEN: anyone on the network could read and overwrite the events.`);
+  process.exit(1);
+}
+
+/** `seq` grows with every applied change, so clients can ask for everything after the last one they saw. */
+let db = { seq: 0, events: {} };
+
+async function load() {
+  try {
+    db = JSON.parse(await readFile(FILE, "utf8"));
+  } catch (err) {
+    if (err.code !== "ENOENT") throw err;
+  }
+}
+
+async function save() {
+  await mkdir(dirname(FILE), { recursive: true });
+  await writeFile(`${FILE}.tmp`, JSON.stringify(db));
+  await rename(`${FILE}.tmp`, FILE);
+}
+
+/**
+ * Pushes (and the reads after them) run one at a time: a push only counts once its write is on disk,
+ * and a failed write is undone before anyone else sees or builds on it. A failure never blocks the
+ * next one.
+ */
+let queue = Promise.resolve();
+function exclusively(fn) {
+  const run = queue.then(fn);
+  queue = run.catch(() => {});
+  return run;
+}
+
+const same = (a, b) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Applies what it can; `undo` puts back the entries it replaced. */
+function push(changes) {
+  const applied = [], conflicts = [], replaced = [];
+  const seq = db.seq;
+  for (const c of changes) {
+    const cur = db.events[c.id];
+    const version = cur?.version || 0;
+    // a retry of a push whose answer got lost carries the same row: nothing to do
+    if (cur && same(cur.row, c.row)) {
+      applied.push({ id: c.id, version });
+    } else if (c.base !== version) {
+      conflicts.push({ id: c.id, version, row: cur?.row ?? null });
+    } else {
+      replaced.push([c.id, cur]);
+      db.seq++;
+      db.events[c.id] = { id: c.id, version: version + 1, seq: db.seq, row: c.row, updatedAt: new Date().toISOString() };
+      applied.push({ id: c.id, version: version + 1 });
+    }
+  }
+  const undo = () => {
+    for (const [id, prev] of replaced.reverse()) {
+      if (prev) db.events[id] = prev;
+      else delete db.events[id];
+    }
+    db.seq = seq;
+  };
+  return { applied, conflicts, changed: replaced.length > 0, undo };
+}
+
+function changesSince(since) {
+  return Object.values(db.events)
+    .filter((e) => e.seq > since)
+    .sort((a, b) => a.seq - b.seq)
+    .map(({ id, version, row }) => ({ id, version, row }));
+}
+
+/** -------------------- HTTP -------------------- */
+/** Pages on this machine, plus SYNC_ORIGINS; other web pages the user has open get no CORS access. */
+function allowedOrigin(origin) {
+  if (!origin) return "";
+  if (ORIGINS.includes(origin)) return origin;
+  try {
+    return isLoopback(new URL(origin).hostname) ? origin : "";
+  } catch {
+    return "";
+  }
+}
+
+function send(res, status, body) {
+  const origin = allowedOrigin(res.req.headers.origin);
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    Vary: "Origin",
+    ...(origin
+      ? {
+          "Access-Control-Allow-Origin": origin,
+          "Access-Control-Allow-Headers": "Content-Type, Authorization",
+          "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        }
+      : {}),
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((ok, fail) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (c) => {
+      size += c.length;
+      if (size > MAX_BODY) {
+        // stop buffering but keep draining, so the client gets to read the 413 instead of a reset
+        chunks.length = 0;
+        req.removeAllListeners("data");
+        req.resume();
+        fail(Object.assign(new Error("request too large"), { status: 413 }));
+      } else chunks.push(c);
+    });
+    req.on("end", () => ok(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", fail);
+  });
+}
+
+const validChange = (c) =>
+  c && typeof c.id === "string" && c.id && Number.isInteger(c.base) && c.base >= 0 &&
+  (c.row === null || (typeof c.row === "object" && c.row.id === c.id));
+
+async function handle(req, res) {
+  const url = new URL(req.url || "/", "http://localhost");
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: "missing or wrong token" });
+
+  // reads wait for a write in progress, so they never hand out changes that may still be undone
+  if (req.method === "GET" && url.pathname === "/api/health") {
+    await exclusively(() => {});
+    return send(res, 200, { ok: true, seq: db.seq });
+  }
+  if (req.method === "GET" && url.pathname === "/api/changes") {
+    const since = Math.max(0, Number(url.searchParams.get("since")) || 0);
+    await exclusively(() => {});
+    return send(res, 200, { seq: db.seq, changes: changesSince(since) });
+  }
+  if (req.method === "POST" && url.pathname === "/api/push") {
+    // a JSON content type makes browsers ask first (CORS preflight), so other pages can't post blind
+    if (!/^application\/json\b/i.test(req.headers["content-type"] || "")) {
+      return send(res, 415, { error: "expected Content-Type: application/json" });
+    }
+    let body;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (err) {
+      if (err.status === 413) {
+        // don't read the rest of an oversized upload: close once the answer is out
+        res.setHeader("Connection", "close");
+        res.on("finish", () => req.destroy());
+      }
+      return send(res, err.status || 400, { error: err.status ? err.message : "invalid JSON" });
+    }
+    if (!Array.isArray(body?.changes) || !body.changes.every(validChange)) {
+      return send(res, 400, { error: "expected { changes: [{ id, base, row }] }" });
+    }
+    const result = await exclusively(async () => {
+      const r = push(body.changes);
+      if (!r.changed) return r;
+      try {
+        await save();
+      } catch (err) {
+        r.undo();
+        console.error(`could not write ${FILE}:`, err);
+        return null;
+      }
+      return r;
+    });
+    if (!result) return send(res, 503, { error: "the server could not save the changes; nothing was applied, try again" });
+    return send(res, 200, { seq: db.seq, applied: result.applied, conflicts: result.conflicts });
+  }
+  send(res, 404, { error: "not found" });
+}
+
+await load();
+createServer((req, res) => {
+  handle(req, res).catch((err) => {
+    console.error(err);
+    send(res, 500, { error: "internal error" });
+  });
+}).listen(PORT, HOST, () => {
+  const where = isLoopback(HOST) ? `http://localhost:${PORT}, this machine only` : `http://${HOST}:${PORT}, token required`;
+  console.log(`Events Tracker sync server on ${where} (data: ${FILE})`);
+});
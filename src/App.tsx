@@ -1,172 +1,381 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { addMonths, endOfDay, format, isWithinInterval, parseISO, startOfDay, subMonths } from "date-fns";
+import { addMonths, addYears, endOfMonth, format, subMonths } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
-import { Upload, Download, Trash2, Filter, Plus } from "lucide-react";
-
-/** -------------------- Config -------------------- */
-const ROOMS = [
-  "Cafe",
-  "Hall",
-  "Backyard",
-  "Seminar room",
-  "Conferences room",
-  "Pavilion",
-] as const;
-type Room = (typeof ROOMS)[number];
-
-const STATUSES = ["Taken", "Booked", "Canceled", "On hold", "Free"] as const;
-type Status = (typeof STATUSES)[number];
-
-type EventRow = {
-  id?: string;
-  name: string;
-  date: string;   // yyyy-MM-dd
-  start: string;  // HH:mm
-  end: string;    // HH:mm
-  rooms: Room[];
-  status: Status;
-  guests: number;
-  rate: number;   // hourly
-  day: number;    // full day
-  fee: number;    // fixed fee
-  food: number;
-  drinks: number;
-  cancelReason?: string;
-  notes?: string;
-};
-
-const STORAGE_KEY = "events_tracker_v3";
+import { Upload, Download, Trash2, Filter, Plus, AlertTriangle, Settings, Euro, Ban, History, Undo2, Redo2, Cloud, CloudOff, Users, UtensilsCrossed, CalendarSearch, Repeat } from "lucide-react";
+import {
+  STATUSES,
+  fmtDate,
+  fmtSpan,
+  inferEndDate,
+  overlapsRange,
+  rangeTest,
+  type EventRow,
+  type Room,
+  type Status,
+} from "@/lib/events";
+import {
+  conflictIndex,
+  describeConflict,
+  findConflicts,
+  type ConflictMode,
+  type RoomBuffers,
+} from "@/lib/conflicts";
+import { DEFAULT_RULES, calendarName, parseICS, toICS, type IcsDefaults } from "@/lib/ics";
+import { applyImport, diffImport, isDestructive, type PendingImport } from "@/lib/merge";
+import { ImportPreview } from "@/components/ImportPreview";
+import { eventsToCSV, type CsvDialect } from "@/lib/csv";
+import { CsvImport } from "@/components/CsvImport";
+import { describeIssue, readEnvelope, toEnvelope, type RowIssue } from "@/lib/schema";
+import {
+  loadCatalog,
+  loadCatering,
+  loadClients,
+  loadColumns,
+  loadJournal,
+  loadPolicy,
+  loadPricing,
+  loadProbabilities,
+  loadSnapshots,
+  loadSync,
+  onClientsSaved,
+  saveCatalog,
+  saveCatering,
+  saveClients,
+  saveColumns,
+  saveJournal,
+  savePolicy,
+  savePricing,
+  saveProbabilities,
+  saveSnapshots,
+  saveSync,
+} from "@/lib/storage";
+import {
+  activeRooms,
+  buffersOf,
+  capacityOf,
+  capacityWarning,
+  defaultCatalog,
+  ratesOf,
+  renameRoom,
+  roomNames,
+  type Catalog,
+} from "@/lib/rooms";
+import { RoomSettings } from "@/components/RoomSettings";
+import {
+  DEFAULT_PRICING,
+  describeDiscount,
+  priceEvent,
+  seasonFor,
+  vatLines,
+  type Discount,
+  type PricingRules,
+} from "@/lib/pricing";
+import { PricingSettings } from "@/components/PricingSettings";
+import { PAYMENT_STATES, paymentStatus, type PaymentState } from "@/lib/payments";
+import { PaymentsEditor } from "@/components/PaymentsEditor";
+import { DEFAULT_POLICY, cancellationFee, type CancelPolicy } from "@/lib/cancellation";
+import { CancellationSettings } from "@/components/CancellationSettings";
+import { CalendarView } from "@/components/CalendarView";
+import { monthlySeries, revenueMix, type MoneyOf } from "@/lib/charts";
+import { Charts, type ChartPick } from "@/components/Charts";
+import { occupancy } from "@/lib/occupancy";
+import { OccupancyPanel } from "@/components/OccupancyPanel";
+import { DEFAULT_PROBABILITIES, FORECAST_MONTHS, comparisonRange, pipeline, type CompareMode, type Probabilities } from "@/lib/forecast";
+import { ForecastPanel } from "@/components/ForecastPanel";
+import { addSnapshot, diffEvents, emptyJournal, patchRows, record, travel, type Journal, type RowChange, type Snapshot } from "@/lib/journal";
+import { announce, listen, loadFallback, loadStore, readRows, usingFallback, writeChanges, type Conflict } from "@/lib/db";
+import { emptySync, enqueue, exchange, exclusively, settle, type SyncState } from "@/lib/sync";
+import { SyncSettings } from "@/components/SyncSettings";
+import { HistoryPanel } from "@/components/HistoryPanel";
+import { clientLabel, mergeClients, newClient, type Client } from "@/lib/clients";
+import { ClientsPanel } from "@/components/ClientsPanel";
+import { DEFAULT_CATERING, cateringTotals, itemSales, withCatering, type CateringItem } from "@/lib/catering";
+import { CateringSettings } from "@/components/CateringSettings";
+import { CateringEditor } from "@/components/CateringEditor";
+import { CateringSales } from "@/components/CateringSales";
+import { AvailabilityFinder } from "@/components/AvailabilityFinder";
+import type { Slot } from "@/lib/availability";
+import {
+  editOccurrence,
+  editSeries,
+  endBefore,
+  expandAll,
+  expandSeries,
+  occurrenceRow,
+  repriceOccurrences,
+  occurrencesOf,
+  skipOccurrence,
+  splitSeries,
+  type SeriesScope,
+} from "@/lib/series";
+import { SeriesEditor } from "@/components/SeriesEditor";
+import { DEFAULT_COLUMNS, tableRow, type Column, type TableRow } from "@/lib/table";
+import { EventsTable } from "@/components/EventsTable";
+import {
+  kpisOf,
+  lostFor,
+  rentalPart,
+  revenueFor,
+  totalFor,
+  totalsByReason,
+  totalsByRoom,
+  totalsByYear,
+} from "@/lib/reports";
+import { canMove, changeStatus, holdDefault, holdReport, nextStatuses, releaseExpired } from "@/lib/workflow";
+
+const CONFLICTS_KEY = "events_tracker_conflicts";
 
 /** -------------------- Utils -------------------- */
 const euro = (n: number) =>
   (Number(n || 0)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
 const toNum = (v: any) => (v === null || v === undefined || v === "" || isNaN(+v) ? 0 : +v);
+const errorText = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/** what the sync panel shows of the stored sync state */
+const syncSummary = (s: SyncState) => ({ url: s.url, token: s.token, pending: Object.keys(s.queue).length, lastSync: s.lastSync });
+
+/** -------------------- App -------------------- */
+export default function App() {
+  // Events live in IndexedDB, one record per event (see db.ts); other open tabs announce what they wrote
+  const [events, setEvents] = useState<EventRow[]>([]);
+  const [loadIssues, setLoadIssues] = useState<RowIssue[]>([]);
+  const [ready, setReady] = useState(false);
+  const [tabConflicts, setTabConflicts] = useState<Conflict[]>([]);
+  const [staleForm, setStaleForm] = useState(false); // the event in the form was changed in another tab
 
-function parseTime(dateStr: string, timeStr: string) {
-  try {
-    const [h, m] = (timeStr || "0:0").split(":").map(Number);
-    const d = new Date(`${dateStr}T00:00:00`);
-    d.setHours(h || 0, m || 0, 0, 0);
-    return d;
-  } catch {
-    return new Date(dateStr);
+  // Change journal: every change to `events` is recorded under the action that caused it
+  const [journal, setJournal] = useState<Journal>(() => loadJournal() || emptyJournal());
+  useEffect(() => { saveJournal(journal); }, [journal]);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>(loadSnapshots);
+  useEffect(() => { saveSnapshots(snapshots); }, [snapshots]);
+  const [showHistory, setShowHistory] = useState(false);
+  const lastEvents = useRef(events);
+  const nextAction = useRef("Edit");
+  // where the next change to `events` comes from: only "local" edits are journaled (undo/redo
+  // "replay" them) and queued for the sync server, what the "server" sent is only stored, and
+  // whatever was read from the store or another tab ("remote") is not written back at all
+  const origin = useRef<"local" | "replay" | "server" | "remote">("local");
+  useEffect(() => {
+    const prev = lastEvents.current, action = nextAction.current, from = origin.current;
+    lastEvents.current = events;
+    nextAction.current = "Edit";
+    origin.current = "local";
+    if (prev === events || from === "remote") return;
+    const changes = diffEvents(prev, events);
+    if (from === "local") setJournal((j) => record(j, action, changes));
+    persist(changes, events);
+    if (from !== "server") queueForServer(changes);
+  }, [events]);
+  // changes a failed write left unstored; they go along with the next write (or "Retry")
+  const unsaved = useRef(new Map<string, RowChange>());
+  const [storeError, setStoreError] = useState("");
+  const [onFallback, setOnFallback] = useState(false); // IndexedDB wouldn't open, saving to localStorage only
+  function persist(changes: RowChange[], all: EventRow[], force = false) {
+    const batch = new Map(unsaved.current);
+    for (const c of changes) batch.set(c.id, c);
+    unsaved.current = new Map();
+    writeChanges([...batch.values()], all, force).then(
+      ({ written, conflicts }) => {
+        announce(written);
+        setStoreError("");
+        if (conflicts.length) setTabConflicts((list) => [...list.filter((x) => !conflicts.some((c) => c.id === x.id)), ...conflicts]);
+      },
+      (err) => {
+        for (const [id, c] of batch) if (!unsaved.current.has(id)) unsaved.current.set(id, c);
+        setStoreError(`Your latest changes could not be saved in this browser (${errorText(err)}). They stay on screen and are tried again with the next change.`);
+      },
+    );
+  }
+  function applyExternal(from: "server" | "remote", update: (prev: EventRow[]) => EventRow[]) {
+    origin.current = from;
+    setEvents(update);
+  }
+  useEffect(() => {
+    loadStore()
+      .catch(() => loadFallback())
+      .then((loaded) => {
+        applyExternal("remote", () => loaded.events);
+        setLoadIssues(loaded.issues);
+        setOnFallback(usingFallback());
+      })
+      .catch((err) => setStoreError(`The stored events could not be read (${errorText(err)}), so the list starts empty.`))
+      .finally(() => setReady(true));
+    return listen((ids) => {
+      readRows(ids).then((rows) => {
+        applyExternal("remote", (prev) => patchRows(prev, new Map(rows.map((r) => [r.id, r.row]))));
+        if (editingId.current && ids.includes(editingId.current)) setStaleForm(true);
+      });
+    });
+  }, []);
+  function resolveConflict(c: Conflict, keep: "mine" | "theirs") {
+    setTabConflicts((list) => list.filter((x) => x.id !== c.id));
+    if (keep === "mine" && !c.server) persist([{ id: c.id, before: c.theirs, after: c.mine }], events, true);
+    if (keep === "theirs") applyExternal(c.server ? "server" : "remote", (prev) => patchRows(prev, new Map([[c.id, c.theirs]])));
+    // the shared queue must end up with the chosen version; the server already has theirs
+    if (keep === "mine" || !c.server) queueForServer([{ id: c.id, after: keep === "mine" ? c.mine : c.theirs }]);
   }
-}
 
-function durationHrs(e: EventRow) {
-  const s = parseTime(e.date, e.start);
-  const en = parseTime(e.date, e.end);
-  return Math.max(0, (en.getTime() - s.getTime()) / 3_600_000);
-}
+  // Server sync (see sync.ts); settings, queue and versions live in localStorage, shared by all tabs
+  const [syncInfo, setSyncInfo] = useState(() => syncSummary(loadSync()));
+  const [syncStatus, setSyncStatus] = useState({ busy: false, error: "" });
+  const [showSync, setShowSync] = useState(false);
+  const [syncDue, setSyncDue] = useState(0); // bumped by every queued change
+  function runSync() {
+    if (!loadSync().url) return;
+    setSyncStatus((st) => ({ ...st, busy: true }));
+    exclusively(async () => {
+      const s = loadSync();
+      if (!s.url) return;
+      const answer = await exchange(s);
+      const fresh = loadSync();
+      if (fresh.url !== s.url) return; // disconnected meanwhile
+      const { state, incoming, conflicts } = settle(fresh, answer);
+      saveSync(state);
+      if (incoming.length) {
+        origin.current = "server";
+        setEvents((prev) => patchRows(prev, new Map(incoming.map((r) => [r.id, r.row]))));
+      }
+      if (conflicts.length) setTabConflicts((list) => [...list.filter((x) => !conflicts.some((c) => c.id === x.id)), ...conflicts]);
+    })
+      .then(
+        () => setSyncStatus({ busy: false, error: "" }),
+        (err) => setSyncStatus({ busy: false, error: errorText(err) }),
+      )
+      .finally(() => setSyncInfo(syncSummary(loadSync())));
+  }
+  function queueForServer(changes: RowChange[]) {
+    const s = loadSync();
+    if (!s.url || !changes.length) return;
+    saveSync(enqueue(s, changes));
+    setSyncInfo(syncSummary(loadSync()));
+    setSyncDue((n) => n + 1);
+  }
+  // push shortly after the last of a burst of edits
+  useEffect(() => {
+    if (!syncDue) return;
+    const timer = setTimeout(runSync, 1000);
+    return () => clearTimeout(timer);
+  }, [syncDue]);
+  // pull every 30 seconds and as soon as the machine is back online
+  useEffect(() => {
+    if (!ready || !syncInfo.url) return;
+    runSync();
+    const timer = setInterval(runSync, 30_000);
+    window.addEventListener("online", runSync);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("online", runSync);
+    };
+  }, [ready, syncInfo.url]);
+  function connectSync(url: string, token: string) {
+    // everything local goes up once, so machines that already hold data merge on the server
+    const queue = Object.fromEntries(events.filter((e) => e.id).map((e) => [e.id!, e]));
+    saveSync({ ...emptySync(url, token), queue });
+    setSyncInfo(syncSummary(loadSync()));
+  }
+  function disconnectSync() {
+    const pending = Object.keys(loadSync().queue).length;
+    if (pending && !confirm(`${pending} changes have not reached the server yet. Disconnect anyway?`)) return;
+    saveSync(emptySync());
+    setSyncInfo(syncSummary(loadSync()));
+    setSyncStatus({ busy: false, error: "" });
+  }
+  function change(action: string, update: EventRow[] | ((prev: EventRow[]) => EventRow[])) {
+    nextAction.current = action;
+    setEvents(update);
+  }
+  function snapshot(label: string) {
+    setSnapshots((s) => addSnapshot(s, label, lastEvents.current));
+  }
+  function travelTo(cursor: number) {
+    const next = travel(events, journal, cursor);
+    if (next.journal.cursor === journal.cursor) return;
+    origin.current = "replay";
+    setEvents(next.events);
+    setJournal(next.journal);
+  }
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, unless a field has the focus
+  useEffect(() => {
+    const onKey = (ev: KeyboardEvent) => {
+      const t = ev.target as HTMLElement | null;
+      if (!(ev.ctrlKey || ev.metaKey) || (t && /^(INPUT|TEXTAREA|SELECT)$/.test(t.tagName))) return;
+      const key = ev.key.toLowerCase();
+      if (key === "z" && !ev.shiftKey) travelTo(journal.cursor - 1);
+      else if ((key === "z" && ev.shiftKey) || key === "y") travelTo(journal.cursor + 1);
+      else return;
+      ev.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
 
-function rentalPart(e: EventRow) {
-  if (e.status === "Free") return 0;
-  if (e.fee > 0) return e.fee;
-  if (e.day > 0) return e.day;
-  return e.rate * durationHrs(e);
-}
+  // Room conflicts (setup/teardown buffers used to live here; they now belong to the room catalog)
+  const [conflictCfg, setConflictCfg] = useState<{ mode: ConflictMode; buffers?: RoomBuffers }>(() => {
+    const fallback = { mode: "warn" as ConflictMode };
+    const raw = localStorage.getItem(CONFLICTS_KEY);
+    if (!raw) return fallback;
+    try { return { ...fallback, ...JSON.parse(raw) }; } catch { return fallback; }
+  });
+  useEffect(() => { localStorage.setItem(CONFLICTS_KEY, JSON.stringify({ mode: conflictCfg.mode })); }, [conflictCfg]);
 
-function revenueFor(e: EventRow) {
-  const base = e.status === "Taken" ? rentalPart(e) : 0;
-  return base + (e.food + e.drinks);
-}
+  // Room catalog
+  const [catalog, setCatalog] = useState<Catalog>(() => loadCatalog() || defaultCatalog(conflictCfg.buffers));
+  useEffect(() => { saveCatalog(catalog); }, [catalog]);
+  const [showRooms, setShowRooms] = useState(false);
+  const buffers = useMemo(() => buffersOf(catalog), [catalog]);
+  const [showFinder, setShowFinder] = useState(false);
 
-function lostFor(e: EventRow) {
-  if (e.status !== "Canceled") return 0;
-  return rentalPart(e);
-}
+  // Clients
+  const [clients, setClients] = useState<Client[]>(() => loadClients() || []);
+  const clientsSeen = useRef(clients); // the list as last saved or read, to tell this tab's edits apart
+  useEffect(() => {
+    const merged = mergeClients(clientsSeen.current, clients, loadClients() || []);
+    clientsSeen.current = merged;
+    saveClients(merged);
+    if (JSON.stringify(merged) !== JSON.stringify(clients)) setClients(merged);
+  }, [clients]);
+  useEffect(
+    () => onClientsSaved(() => setClients((list) => mergeClients(clientsSeen.current, list, loadClients() || []))),
+    [],
+  );
+  const [showClients, setShowClients] = useState(false);
+  const [clientView, setClientView] = useState<string | null>(null); // client whose details are open
+  const clientsById = useMemo(() => new Map(clients.map((c) => [c.id, c])), [clients]);
+  const clientOptions = useMemo(() => [...clients].sort((a, b) => clientLabel(a).localeCompare(clientLabel(b))), [clients]);
 
-function yearOf(e: EventRow) {
-  try {
-    return new Date(e.date).getFullYear();
-  } catch {
-    return undefined;
-  }
-}
+  // Pricing rules
+  const [pricing, setPricing] = useState<PricingRules>(() => loadPricing() || DEFAULT_PRICING);
+  useEffect(() => { savePricing(pricing); }, [pricing]);
+  const [showPricing, setShowPricing] = useState(false);
 
-/** -------------------- ICS helpers (client-side) -------------------- */
-type Rule = { room: Room; kws: string[] };
+  // Cancellation policy
+  const [policy, setPolicy] = useState<CancelPolicy>(() => loadPolicy() || DEFAULT_POLICY);
+  useEffect(() => { savePolicy(policy); }, [policy]);
+  const [showPolicy, setShowPolicy] = useState(false);
 
-function unfoldICSLines(raw: string) {
-  const lines = raw.replace(/\r\n/g, "\n").split("\n");
-  const out: string[] = [];
-  for (const line of lines) {
-    if (/^\s/.test(line) && out.length) out[out.length - 1] += line.slice(1);
-    else out.push(line);
-  }
-  return out;
-}
-function readProps(block: string[]) {
-  const obj: Record<string, string> = {};
-  for (const line of block) {
-    const idx = line.indexOf(":");
-    if (idx < 0) continue;
-    const keyPart = line.slice(0, idx);
-    const val = line.slice(idx + 1);
-    const key = keyPart.split(";")[0].toUpperCase();
-    obj[key] = val;
-  }
-  return obj;
-}
-function asLocal(dateStr?: string | null) {
-  if (!dateStr) return null;
-  if (/^[0-9]{8}$/.test(dateStr)) {
-    const y = +dateStr.slice(0, 4), m = +dateStr.slice(4, 6) - 1, d = +dateStr.slice(6, 8);
-    return new Date(y, m, d);
-  }
-  const m = dateStr.match(/([0-9]{8})T([0-9]{2})([0-9]{2})([0-9]{2})(Z?)/);
-  if (!m) return null;
-  const y = +m[1].slice(0, 4), mo = +m[1].slice(4, 6) - 1, d = +m[1].slice(6, 8);
-  const hh = +m[2], mm = +m[3], ss = +m[4];
-  return m[5] === "Z" ? new Date(Date.UTC(y, mo, d, hh, mm, ss)) : new Date(y, mo, d, hh, mm, ss);
-}
-function fmtDate(d: Date) { return `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,"0")}-${String(d.getDate()).padStart(2,"0")}`; }
-function fmtTime(d: Date) { return `${String(d.getHours()).padStart(2,"0")}:${String(d.getMinutes()).padStart(2,"0")}`; }
-
-function parseRules(text: string): Rule[] {
-  const rules: Rule[] = [];
-  (text || "")
-    .split(/\n+/)
-    .map((l) => l.trim())
-    .filter(Boolean)
-    .forEach((line) => {
-      const [room, keys] = line.split(":");
-      if (!room || !keys) return;
-      const roomName = room.trim() as Room;
-      const ok = new Set(ROOMS);
-      if (!ok.has(roomName)) return;
-      const kws = keys.split(",").map((k) => k.trim().toLowerCase()).filter(Boolean);
-      if (kws.length) rules.push({ room: roomName, kws });
-    });
-  return rules;
-}
-function guessRooms(summary: string, location: string, rules: Rule[]): Room[] {
-  const hay = `${summary || ""} ${location || ""}`.toLowerCase();
-  const hits = new Set<Room>();
-  for (const r of rules) if (r.kws.some((k) => hay.includes(k))) hits.add(r.room);
-  return Array.from(hits);
-}
+  // Catering catalog
+  const [cateringItems, setCateringItems] = useState<CateringItem[]>(() => loadCatering() || DEFAULT_CATERING);
+  useEffect(() => { saveCatering(cateringItems); }, [cateringItems]);
+  const [showCatering, setShowCatering] = useState(false);
+  const cateringUsed = useMemo(() => new Set(events.flatMap((e) => (e.catering || []).map((l) => l.itemId!).filter(Boolean))), [events]);
 
-/** -------------------- App -------------------- */
-export default function App() {
-  // Events
-  const [events, setEvents] = useState<EventRow[]>(() => {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    try { return JSON.parse(raw) as EventRow[]; } catch { return []; }
-  });
-  useEffect(() => { localStorage.setItem(STORAGE_KEY, JSON.stringify(events)); }, [events]);
+  // Forecast & comparison
+  const [probs, setProbs] = useState<Probabilities>(() => loadProbabilities() || DEFAULT_PROBABILITIES);
+  useEffect(() => { saveProbabilities(probs); }, [probs]);
+  const [compare, setCompare] = useState(false); // deltas against the previous period and the same period last year
 
   // Filters
   const [filter, setFilter] = useState({
     q: "",
     room: "" as "" | Room,
     status: "" as "" | Status,
+    client: "", // Client.id
+    payment: "" as "" | PaymentState,
     from: format(subMonths(new Date(), 3), "yyyy-MM-01"),
     to: format(addMonths(new Date(), 1), "yyyy-MM-28"),
   });
@@ -175,6 +384,7 @@ export default function App() {
   const emptyForm: EventRow = {
     name: "",
     date: "",
+    endDate: "",
     start: "",
     end: "",
     rooms: [],
@@ -189,94 +399,254 @@ export default function App() {
     notes: "",
   };
   const [form, setForm] = useState<EventRow>(emptyForm);
-  const editingIndex = useRef<number | null>(null);
+  const editingId = useRef<string | null>(null); // stored row; the series row when an occurrence is open
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>("this");
+  const [statusComment, setStatusComment] = useState("");
 
   /** -------- Derived lists -------- */
-  const filtered = useMemo(() => {
-    return events
-      .filter((e) => {
-        // search
-        const q = filter.q.toLowerCase();
-        const qOk =
-          !q ||
-          (e.name || "").toLowerCase().includes(q) ||
-          (e.notes || "").toLowerCase().includes(q) ||
-          (e.cancelReason || "").toLowerCase().includes(q);
-        // room
-        const rOk = !filter.room || e.rooms.includes(filter.room);
-        // status
-        const sOk = !filter.status || e.status === filter.status;
-        // date range
-        const d = parseISO(`${e.date}T00:00:00`);
-        const from = parseISO(`${filter.from}T00:00:00`);
-        const to = parseISO(`${filter.to}T23:59:59`);
-        const rangeOk = isWithinInterval(d, { start: startOfDay(from), end: endOfDay(to) });
-        return qOk && rOk && sOk && rangeOk;
-      })
-      .sort((a, b) => (a.date > b.date ? 1 : -1));
-  }, [events, filter]);
+  // the search box filters once typing pauses
+  const [search, setSearch] = useState(filter.q);
+  useEffect(() => {
+    const t = setTimeout(() => setFilter((f) => (f.q === search ? f : { ...f, q: search })), 250);
+    return () => clearTimeout(t);
+  }, [search]);
+  const cmpRanges = useMemo(
+    () =>
+      (compare ? (["previous", "lastYear"] as CompareMode[]) : []).flatMap((mode) => {
+        const range = comparisonRange(filter.from, filter.to, mode);
+        return range ? [{ ...range, mode }] : [];
+      }),
+    [filter.from, filter.to, compare],
+  );
+  // occurrences of a series are priced for their own date and times
+  const priceOf = useMemo(() => (e: EventRow) => priceEvent(e, pricing, catalog), [pricing, catalog]);
+
+  // expired holds give their slot back, once loaded and then hourly
+  useEffect(() => {
+    if (!ready) return;
+    const release = () => {
+      const today = fmtDate(new Date());
+      if (releaseExpired(lastEvents.current, today) !== lastEvents.current) change("Release expired holds", (prev) => releaseExpired(prev, today, priceOf));
+    };
+    release();
+    const timer = setInterval(release, 3_600_000);
+    return () => clearInterval(timer);
+  }, [ready, priceOf]);
+
+  // money, hours and search text per event, so filtering and sorting don't recompute them per keystroke
+  const rowOf = useMemo(() => (e: EventRow) => tableRow(e, policy, clientsById.get(e.clientId!)?.org), [policy, clientsById]);
+  const masters = useMemo(() => events.filter((e) => e.series), [events]);
+  const singleRows = useMemo(() => events.filter((e) => !e.series).map(rowOf), [events, rowOf]);
+  // series become one row per occurrence, over the dates each view covers
+  const rowsOver = useMemo(
+    () => (from: string, to: string) => [...singleRows, ...expandSeries(masters, from, to, priceOf).map(rowOf)].sort((a, b) => a.start - b.start),
+    [singleRows, masters, rowOf, priceOf],
+  );
+  // the table and figures: the filtered range and the ones it is compared with
+  const rows = useMemo(() => {
+    const from = cmpRanges.reduce((d, r) => (r.from < d ? r.from : d), filter.from);
+    const to = cmpRanges.reduce((d, r) => (r.to > d ? r.to : d), filter.to);
+    return rowsOver(from, to);
+  }, [rowsOver, filter.from, filter.to, cmpRanges]);
+  const expanded = useMemo(() => rows.map((r) => r.e), [rows]);
+  const conflicts = useMemo(() => conflictIndex(expanded, buffers), [expanded, buffers]);
+  const [columns, setColumns] = useState<Column[]>(() => loadColumns() || DEFAULT_COLUMNS);
+  useEffect(() => { saveColumns(columns); }, [columns]);
+  const seriesById = useMemo(() => new Map(masters.map((e) => [e.id!, e.series!])), [masters]);
+  // every filter but the date range
+  const matches = useMemo(() => {
+    const q = filter.q.toLowerCase();
+    return ({ e, text, payment }: TableRow) => {
+      // search
+      const qOk = !q || text.includes(q);
+      // room
+      const rOk = !filter.room || e.rooms.includes(filter.room);
+      // status
+      const sOk = !filter.status || e.status === filter.status;
+      // client
+      const cOk = !filter.client || e.clientId === filter.client;
+      // payment state
+      const pOk = !filter.payment || payment.state === filter.payment;
+      return qOk && rOk && sOk && cOk && pOk;
+    };
+  }, [filter.q, filter.room, filter.status, filter.client, filter.payment]);
+  const undatedRows = useMemo(() => rows.filter(matches), [rows, matches]);
+  const undated = useMemo(() => undatedRows.map((r) => r.e), [undatedRows]);
+  // date range (multi-day events count when any part of them falls inside)
+  const filteredRows = useMemo(() => {
+    const inRange = rangeTest(filter.from, filter.to);
+    return undatedRows.filter((r) => inRange(r.start, r.end));
+  }, [undatedRows, filter.from, filter.to]);
+  const filtered = useMemo(() => filteredRows.map((r) => r.e), [filteredRows]);
 
   /** -------- KPIs -------- */
-  const kpis = useMemo(() => {
-    let total = 0, taken = 0, booked = 0, canceled = 0, hold = 0, free = 0;
-    let revenue = 0, lost = 0, guests = 0;
-    for (const e of filtered) {
-      total++;
-      if (e.status === "Taken") taken++;
-      if (e.status === "Booked") booked++;
-      if (e.status === "Canceled") canceled++;
-      if (e.status === "On hold") hold++;
-      if (e.status === "Free") free++;
-      revenue += revenueFor(e);
-      lost += lostFor(e);
-      if (e.status === "Taken") guests += (e.guests || 0);
-    }
-    return { total, taken, booked, canceled, hold, free, revenue, lost, guests };
-  }, [filtered]);
+  const kpis = useMemo(() => kpisOf(filtered, pricing, policy), [filtered, pricing, policy]);
+  // the same figures over each comparison range, for the deltas on the metric cards
+  const kpisBefore = useMemo(
+    () => cmpRanges.map((r) => ({ mode: r.mode, kpis: kpisOf(undated.filter((e) => overlapsRange(e, r.from, r.to)), pricing, policy) })),
+    [undated, cmpRanges, pricing, policy],
+  );
+  const delta = (k: keyof typeof kpis, money = false, lowerIsBetter = false): Delta[] =>
+    kpisBefore.map(({ mode, kpis: before }) => ({
+      now: kpis[k],
+      before: before[k],
+      label: `${mode === "lastYear" ? "last year" : "previous"} (${money ? `€ ${euro(before[k])}` : before[k]})`,
+      lowerIsBetter,
+    }));
+
+  /** -------- Pipeline forecast -------- */
+  const today = fmtDate(new Date());
+  const horizon = format(addMonths(new Date(`${today}T00:00:00`), FORECAST_MONTHS), "yyyy-MM-dd");
+  const forecast = useMemo(
+    () => pipeline(rowsOver(today, horizon).filter(matches).map((r) => r.e), totalFor, probs, today),
+    [rowsOver, matches, probs, today, horizon],
+  );
+
+  /** -------- Calendar & clients -------- */
+  // the calendar reports the dates it shows, occurrences are generated for those only
+  const [calendarRange, setCalendarRange] = useState({ from: "", to: "" });
+  const calendarEvents = useMemo(
+    () => (calendarRange.from ? rowsOver(calendarRange.from, calendarRange.to).filter(matches).map((r) => r.e) : []),
+    [rowsOver, matches, calendarRange],
+  );
+  // client figures are lifetime: every occurrence, open-ended series up to the forecast horizon
+  const lifetimeEvents = useMemo(() => expandAll(events, horizon, priceOf), [events, horizon, priceOf]);
 
   /** -------- Per Room / Per Year -------- */
-  const perRoom = useMemo(() => {
-    const map: Record<string, { events: number; revenue: number; lost: number; guests: number }> = {};
-    ROOMS.forEach((r) => (map[r] = { events: 0, revenue: 0, lost: 0, guests: 0 }));
-    for (const e of filtered) {
-      const rooms = e.rooms.length ? e.rooms : ([] as Room[]);
-      const n = Math.max(1, rooms.length);
-      const rent = rentalPart(e);
-      const lost = lostFor(e);
-      for (const r of rooms.length ? rooms : []) {
-        if (!map[r]) map[r] = { events: 0, revenue: 0, lost: 0, guests: 0 };
-        map[r].events++;
-        map[r].revenue += (e.status === "Taken" ? rent / n : 0);
-        map[r].lost += lost / n;
-        map[r].guests += e.status === "Taken" ? (e.guests || 0) : 0;
-      }
-    }
-    return map;
-  }, [filtered]);
-
-  const perYear = useMemo(() => {
-    const map: Record<string, { events: number; taken: number; canceled: number; revenue: number; lost: number; guests: number }> = {};
-    for (const e of filtered) {
-      const y = String(yearOf(e) ?? "—");
-      if (!map[y]) map[y] = { events: 0, taken: 0, canceled: 0, revenue: 0, lost: 0, guests: 0 };
-      map[y].events++;
-      if (e.status === "Taken") map[y].taken++;
-      if (e.status === "Canceled") map[y].canceled++;
-      map[y].revenue += revenueFor(e);
-      map[y].lost += lostFor(e);
-      if (e.status === "Taken") map[y].guests += e.guests || 0;
-    }
-    return Object.entries(map).sort((a, b) => a[0].localeCompare(b[0]));
-  }, [filtered]);
+  const perRoom = useMemo(() => totalsByRoom(filtered, policy, activeRooms(catalog).map((r) => r.name)), [filtered, catalog, policy]);
+
+  const perYear = useMemo(() => totalsByYear(filtered, policy), [filtered, policy]);
+
+  const perReason = useMemo(() => totalsByReason(filtered, policy), [filtered, policy]);
+  const sales = useMemo(() => itemSales(filtered, cateringItems), [filtered, cateringItems]);
+
+  /** -------- Hold conversion (by date of the status change) -------- */
+  const holds = useMemo(() => holdReport(undated, filter.from, filter.to), [undated, filter.from, filter.to]);
+
+  /** -------- Occupancy -------- */
+  const occupancyData = useMemo(() => {
+    if (!filter.from || !filter.to || filter.from > filter.to) return null;
+    const rooms = filter.room ? [filter.room] : activeRooms(catalog).map((r) => r.name);
+    return occupancy(filtered, catalog, rooms, filter.from, filter.to);
+  }, [filtered, catalog, filter.room, filter.from, filter.to]);
+
+  /** -------- Charts -------- */
+  const charts = useMemo(() => {
+    const money: MoneyOf = {
+      revenue: revenueFor,
+      lost: (e) => lostFor(e, policy),
+      rental: (e) => (e.status === "Taken" ? rentalPart(e) : 0),
+    };
+    return {
+      months: monthlySeries(filtered, money),
+      rooms: Object.entries(perRoom).map(([room, v]) => ({ room, revenue: v.revenue, guests: v.guests })),
+      mix: revenueMix(filtered, money),
+    };
+  }, [filtered, perRoom, policy]);
+
+  /** a click on a chart narrows the filters to what was clicked */
+  function applyPick(p: ChartPick) {
+    setFilter((f) => ({
+      ...f,
+      ...(p.month ? { from: `${p.month}-01`, to: format(endOfMonth(new Date(`${p.month}-01T00:00:00`)), "yyyy-MM-dd") } : {}),
+      ...(p.room ? { room: p.room } : {}),
+      ...(p.status ? { status: p.status } : {}),
+    }));
+  }
+
+  /** -------- Form helpers -------- */
+  const formCapacity = capacityOf(catalog, form.rooms);
+  const formRates = ratesOf(catalog, form.rooms);
+  const formCapacityWarning = capacityWarning(catalog, form.rooms, form.guests);
+  // new events are priced on save; edited ones keep their stored rental until recalculated
+  const formPrice = priceEvent({ ...form, endDate: form.endDate || inferEndDate(form.date, form.start, form.end) }, pricing, catalog);
+  const isNew = editingId.current === null;
+  const savedRow = isNew ? undefined : events.find((e) => e.id === editingId.current);
+  // an open occurrence compares with the occurrence as stored, not with the series row
+  const savedStatus = savedRow && form.occurrenceOf ? occurrenceRow(savedRow, form.occurrenceOf.date).status : savedRow?.status;
+  const statusChanged = form.status !== savedStatus;
+  const formRental = isNew ? formPrice.rental : form.price ? form.price.rental : rentalPart({ ...form, status: "Taken" });
+  // itemized catering follows the guests and hours as they are typed
+  const formFood = form.catering ? cateringTotals(form).food : form.food;
+  const formDrinks = form.catering ? cateringTotals(form).drinks : form.drinks;
+  const formTotals = vatLines({ rental: formRental, food: formFood, drinks: formDrinks }, pricing);
+  const formSeason = form.date ? seasonFor(pricing, form.date) : undefined;
+  const formTotal = formRental + (formFood || 0) + (formDrinks || 0);
+  const formCancel = cancellationFee(form, formRental, policy);
+  const formPayment = paymentStatus(form, form.status === "Canceled" ? formCancel.fee : formTotal);
+  const formReasons = form.cancelReason && !policy.reasons.includes(form.cancelReason) ? [...policy.reasons, form.cancelReason] : policy.reasons;
 
   /** -------- CRUD -------- */
   function startAdd() {
-    editingIndex.current = null;
+    editingId.current = null;
     setForm({ ...emptyForm });
+    setStatusComment("");
+    setStaleForm(false);
+    setSeriesScope("this");
+  }
+  /** A slot picked in the availability finder becomes a new "On hold" event in the form. */
+  function holdSlot(slot: Slot, guests: number) {
+    startAdd();
+    setForm({
+      ...emptyForm,
+      date: slot.date,
+      endDate: slot.endDate,
+      start: slot.start,
+      end: slot.end,
+      rooms: slot.rooms,
+      guests,
+      status: "On hold",
+      holdUntil: holdDefault(),
+    });
+  }
+  function startEdit(e: EventRow) {
+    const master = e.occurrenceOf && events.find((x) => x.id === e.occurrenceOf!.id);
+    editingId.current = (master ? master.id : e.id) ?? null;
+    // the rule comes along for edits of "this and following" or "all" occurrences
+    setForm(master ? { ...e, series: master.series } : { ...e });
+    setStatusComment("");
+    setStaleForm(false);
+    setSeriesScope("this");
+  }
+  /** Checks shared by the form and drag-to-reschedule; fills in `endDate`. False when the row must not be saved. */
+  function confirmRow(row: EventRow) {
+    if (!row.name || !row.date || !row.start || !row.end) {
+      alert("Please fill: name, date, start, end.");
+      return false;
+    }
+    if (!row.endDate || row.endDate === row.date) row.endDate = inferEndDate(row.date, row.start, row.end);
+    if (row.endDate < row.date || (row.endDate === row.date && row.end < row.start)) {
+      alert("The event ends before it starts.");
+      return false;
+    }
+    const overCapacity = capacityWarning(catalog, row.rooms, row.guests);
+    if (overCapacity && !confirm(`${overCapacity}.\n\nSave anyway?`)) return false;
+    const clashes = clashesOf(row);
+    if (clashes.length) {
+      const list = clashes.slice(0, 10).map((c) => `• ${c}`).join("\n") + (clashes.length > 10 ? `\n… and ${clashes.length - 10} more` : "");
+      if (conflictCfg.mode === "block") {
+        alert(`Room conflict, event not saved:\n${list}`);
+        return false;
+      }
+      if (!confirm(`Room conflict:\n${list}\n\nSave anyway?`)) return false;
+    }
+    return true;
   }
-  function startEdit(idx: number) {
-    editingIndex.current = idx;
-    setForm({ ...filtered[idx] });
+  /**
+   * Clashes of what saving `row` puts in the rooms: the row itself or, for a series and for changes to
+   * "this and following" or "all" occurrences, each occurrence up to a year ahead.
+   */
+  function clashesOf(row: EventRow) {
+    const seriesId = row.occurrenceOf?.id ?? row.id;
+    if (!row.series || (row.occurrenceOf && seriesScope === "this")) {
+      return findConflicts(row, expandSeries(events, row.date, row.endDate || row.date), buffers).map(describeConflict);
+    }
+    const master = events.find((e) => e.id === seriesId);
+    const first = row.occurrenceOf && seriesScope === "all" && master ? editSeries(master, row) : { ...row, occurrenceOf: undefined };
+    const probes = occurrencesOf(first, first.date, format(addYears(new Date(`${first.date}T00:00:00`), 1), "yyyy-MM-dd"));
+    if (!probes.length) return [];
+    const others = expandSeries(events.filter((e) => e.id !== seriesId), first.date, probes[probes.length - 1].endDate);
+    return probes.flatMap((p) => findConflicts(p, others, buffers).map((c) => `${p.date}: ${describeConflict(c)}`));
   }
   function saveForm() {
     const row: EventRow = {
@@ -285,7 +655,7 @@ export default function App() {
       name: (form.name || "").trim(),
       cancelReason: (form.cancelReason || "").trim(),
       notes: (form.notes || "").trim(),
-      rooms: Array.from(new Set(form.rooms || [])).filter(Boolean) as Room[],
+      rooms: Array.from(new Set(form.rooms || [])).filter(Boolean),
       guests: toNum(form.guests),
       rate: toNum(form.rate),
       day: toNum(form.day),
@@ -293,43 +663,195 @@ export default function App() {
       food: toNum(form.food),
       drinks: toNum(form.drinks),
     };
-    if (!row.name || !row.date || !row.start || !row.end) {
-      alert("Please fill: name, date, start, end.");
+    if (!row.discount?.value) delete row.discount;
+    if (!row.clientId) delete row.clientId;
+    if (!row.series) delete row.series;
+    if (row.catering) {
+      const t = cateringTotals(row);
+      row.food = t.food;
+      row.drinks = t.drinks;
+      if (!row.catering.length) delete row.catering;
+    }
+    if (row.status !== "Canceled" || !row.canceledOn) delete row.canceledOn;
+    if (row.status !== "On hold" || !row.holdUntil) delete row.holdUntil;
+    if (row.ledger) {
+      const payments = row.ledger.payments.filter((p) => p.amount > 0 && p.date);
+      row.ledger = { ...row.ledger, payments };
+      if (!payments.length && !row.ledger.depositDue && !row.ledger.depositDueDate && !row.ledger.balanceDueDate) delete row.ledger;
+    }
+    if (savedStatus && !canMove(savedStatus, row.status)) {
+      alert(`An event cannot go from ${savedStatus} to ${row.status}.`);
       return;
     }
-    if (editingIndex.current === null) {
-      setEvents((prev) => [...prev, row]);
+    if (staleForm && !confirm(`"${row.name}" was changed in another tab while you were editing it. Save your version over it?`)) return;
+    if (!confirmRow(row)) return;
+    const id = editingId.current;
+    if (id === null) {
+      row.price = priceEvent(row, pricing, catalog);
+      const comment = statusComment.trim();
+      row.history = [{ at: new Date().toISOString(), to: row.status, ...(comment ? { comment } : {}) }];
+      change("Add event", (prev) => [...prev, row]);
     } else {
-      const globalIdx = events.findIndex((e) => e.id === filtered[editingIndex.current!].id);
-      const copy = [...events];
-      copy[globalIdx] = row;
-      setEvents(copy);
+      const saved = statusChanged ? changeStatus({ ...row, status: savedStatus! }, row.status, statusComment) : row;
+      if (saved.occurrenceOf) saveOccurrence(id, saved);
+      // another tab may have deleted it meanwhile; saving anyway brings it back
+      else change("Edit event", (prev) => (prev.some((e) => e.id === id) ? prev.map((e) => (e.id === id ? saved : e)) : [...prev, saved]));
     }
     startAdd();
   }
+  /** An edited occurrence of the series `id`, stored for it alone, for it and the ones after it, or for all of them. */
+  function saveOccurrence(id: string, row: EventRow) {
+    const date = row.occurrenceOf!.date;
+    if (seriesScope === "this") {
+      change("Edit occurrence", (prev) => prev.map((e) => (e.id === id ? editOccurrence(e, date, row, priceOf) : e)));
+    } else if (seriesScope === "all") {
+      change("Edit series", (prev) => prev.map((e) => (e.id === id ? editSeries(e, row, priceOf) : e)));
+    } else {
+      const tailId = crypto.randomUUID();
+      change("Edit following occurrences", (prev) => prev.flatMap((e) => {
+        if (e.id !== id) return [e];
+        const [head, tail] = splitSeries(e, date, row, tailId);
+        return head ? [head, tail] : [tail];
+      }));
+    }
+  }
+  /** Drag-to-reschedule from the calendar: only date, times and rooms change. */
+  function rescheduleEvent(row: EventRow) {
+    if (!confirmRow(row)) return;
+    const moved = { ...withCatering(row) }; // per-hour catering follows the new times
+    const of = row.occurrenceOf;
+    if (of) delete moved.price; // priced for its new times
+    if (of) change("Reschedule occurrence", (prev) => prev.map((e) => (e.id === of.id ? editOccurrence(e, of.date, moved, priceOf) : e)));
+    else change("Reschedule event", (prev) => prev.map((e) => (e.id === row.id ? moved : e)));
+    if (form.id === row.id) {
+      setForm((f) => ({ ...f, date: row.date, endDate: row.endDate, start: row.start, end: row.end, rooms: row.rooms }));
+    }
+  }
   function removeEvent(id?: string) {
     if (!id) return;
-    setEvents((prev) => prev.filter((e) => e.id !== id));
+    change("Delete event", (prev) => prev.filter((e) => e.id !== id));
+  }
+  /** The form's Delete: for an occurrence, skips it, ends the series before it, or deletes the whole series. */
+  function removeFromForm() {
+    const id = editingId.current!, of = form.occurrenceOf;
+    if (!of || seriesScope === "all") removeEvent(id);
+    else if (seriesScope === "this") change("Skip occurrence", (prev) => prev.map((e) => (e.id === id ? skipOccurrence(e, of.date) : e)));
+    else change("End series", (prev) => prev.flatMap((e) => (e.id !== id ? [e] : endBefore(e, of.date) || [])));
+    startAdd();
+  }
+  /** A client for the name typed in the form, linked to the event being edited. */
+  function clientFromForm() {
+    const c = newClient(form.name.trim() || "New client");
+    setClients((list) => [...list, c]);
+    setForm((f) => ({ ...f, clientId: c.id }));
+    setClientView(c.id);
+    setShowClients(true);
+  }
+  function deleteClient(c: Client) {
+    const linked = events.filter((e) => e.clientId === c.id).length;
+    if (!confirm(`Delete client "${clientLabel(c)}"?${linked ? ` Their ${linked} events stay, without a client.` : ""}`)) return;
+    if (linked) {
+      change(`Delete client "${c.org}"`, (prev) => prev.map((e) => {
+        if (e.clientId !== c.id) return e;
+        const row = { ...e };
+        delete row.clientId;
+        return row;
+      }));
+    }
+    setClients((list) => list.filter((x) => x.id !== c.id));
+    setClientView(null);
+    setFilter((f) => (f.client === c.id ? { ...f, client: "" } : f));
+    setForm((f) => (f.clientId === c.id ? { ...f, clientId: undefined } : f));
+  }
+  function renameRoomEverywhere(from: Room, to: Room) {
+    if (!to) return "A room needs a name.";
+    if (catalog.rooms.some((r) => r.name !== from && r.name.toLowerCase() === to.toLowerCase())) {
+      return `A room called "${to}" already exists.`;
+    }
+    const next = renameRoom(catalog, events, from, to);
+    setCatalog(next.catalog);
+    change(`Rename room ${from} → ${to}`, next.events);
+    setForm((f) => ({ ...f, rooms: f.rooms.map((r) => (r === from ? to : r)) }));
+    setFilter((f) => (f.room === from ? { ...f, room: to } : f));
+    const esc = from.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    setIcsDefaults((d) => ({ ...d, rules: d.rules.replace(new RegExp(`^(\\s*)${esc}(\\s*:)`, "gm"), (_, pre, colon) => `${pre}${to}${colon}`) }));
+    return null;
+  }
+  function repriceFiltered() {
+    if (!confirm(`Recalculate the rental price of ${filtered.length} events with the current pricing rules?`)) return;
+    const ids = new Set(filtered.map((e) => e.id));
+    // occurrences by series: each is priced for its own date, prices stored for single ones are redone
+    const dates = new Map<string, string[]>();
+    for (const e of filtered) if (e.occurrenceOf) dates.set(e.occurrenceOf.id, [...(dates.get(e.occurrenceOf.id) || []), e.occurrenceOf.date]);
+    change("Recalculate prices", (prev) => prev.map((e) => {
+      if (e.series && dates.has(e.id!)) return { ...repriceOccurrences(e, dates.get(e.id!)!), price: priceEvent(e, pricing, catalog) };
+      return ids.has(e.id) ? { ...e, price: priceEvent(e, pricing, catalog) } : e;
+    }));
+  }
+  function restoreSnapshot(s: Snapshot) {
+    if (!confirm(`Replace all ${events.length} events with the ${s.events.length} from "${s.label}"?`)) return;
+    snapshot(`Before restoring "${s.label}"`);
+    change(`Restore snapshot "${s.label}"`, s.events);
   }
   function clearAll() {
     if (!confirm("Delete ALL events?")) return;
-    setEvents([]);
+    snapshot("Before Clear All");
+    change("Clear all", []);
   }
 
   /** -------- Import/Export -------- */
-  function exportJSON() {
-    const blob = new Blob([JSON.stringify(events, null, 2)], { type: "application/json" });
+  function download(name: string, text: string, type: string) {
+    const blob = new Blob([text], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
-    a.href = url; a.download = "events.json"; a.click();
+    a.href = url; a.download = name; a.click();
     URL.revokeObjectURL(url);
   }
+  function exportJSON() {
+    download("events.json", JSON.stringify(toEnvelope(events), null, 2), "application/json");
+  }
+  // "all" | "filtered" | "room:<Room>" | "status:<Status>"
+  const [icsScope, setIcsScope] = useState("all");
+  function exportICS() {
+    const [kind, value] = icsScope.split(/:(.*)/);
+    let rows = events, label = "";
+    if (kind === "filtered") {
+      // a series goes out once, with its rule, when any of its occurrences matches
+      const ids = new Set(filtered.map((e) => e.occurrenceOf?.id ?? e.id));
+      rows = events.filter((e) => ids.has(e.id));
+      label = "-filtered";
+    }
+    if (kind === "room") { rows = events.filter((e) => e.rooms.includes(value)); label = `-${value}`; }
+    if (kind === "status") { rows = events.filter((e) => e.status === value); label = `-${value}`; }
+    const calName = `Events Tracker${label ? ` (${label.slice(1)})` : ""}`;
+    download(`events${label.replace(/\s+/g, "-").toLowerCase()}.ics`, toICS(rows, calName), "text/calendar");
+  }
+  const [csvDialect, setCsvDialect] = useState<CsvDialect>("us");
+  function exportCSV() {
+    // the BOM makes Excel read the file as UTF-8
+    download("events-filtered.csv", "\uFEFF" + eventsToCSV(filtered, csvDialect, policy), "text/csv");
+  }
+  // Imports are staged here and only written to `events` once the preview is confirmed
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  function applyPending() {
+    if (!pending) return;
+    if (isDestructive(pending.entries, pending.actions)) snapshot(`Before importing ${pending.label}`);
+    change(`Import ${pending.label}`, (prev) => applyImport(prev, pending.entries, pending.actions));
+    setPending(null);
+  }
+
   function importJSONFile(file: File) {
     const r = new FileReader();
     r.onload = () => {
       try {
-        const arr = JSON.parse(String(r.result));
-        if (Array.isArray(arr)) setEvents(arr as EventRow[]);
+        const { rows, issues } = readEnvelope(JSON.parse(String(r.result)), roomNames(catalog));
+        const rejected = issues.filter((i) => i.errors.length).length;
+        const report = issues.length
+          ? [`${rows.length} valid rows, ${rejected} rejected, ${issues.length - rejected} fixed up:`, ...issues.map((i) => `  • ${describeIssue(i)}`)]
+          : [];
+        // a JSON export is the whole dataset, so anything missing from it counts as removed
+        const entries = rows.length ? diffImport(events, rows, () => true) : [];
+        setPending({ label: file.name, entries, actions: {}, report });
       } catch {
         alert("Invalid JSON");
       }
@@ -337,60 +859,59 @@ export default function App() {
     r.readAsText(file);
   }
 
+  // CSV files go through the column-mapping step first
+  const [csvImport, setCsvImport] = useState<{ label: string; text: string } | null>(null);
+  async function importCSVFile(file: File) {
+    setCsvImport({ label: file.name, text: await file.text() });
+  }
+  function stageCSV(rows: EventRow[], issues: RowIssue[]) {
+    const rejected = issues.filter((i) => i.errors.length).length;
+    const report = issues.length
+      ? [`${rows.length} valid rows, ${rejected} rejected, ${issues.length - rejected} fixed up:`, ...issues.map((i) => `  • ${describeIssue(i)}`)]
+      : [];
+    // a spreadsheet usually holds a selection of events, so nothing counts as removed
+    setPending({ label: csvImport!.label, entries: diffImport(events, rows), actions: {}, report });
+    setCsvImport(null);
+  }
+
   // ICS
-  const [icsDefaults, setIcsDefaults] = useState({
-    status: "Taken" as Status,
+  const [icsDefaults, setIcsDefaults] = useState<IcsDefaults>({
+    status: "Taken",
     guests: 0,
     rate: 0,
     day: 0,
     fee: 0,
-    rules: `Cafe: cafe,barista
-Hall: hall
-Backyard: backyard,garden
-Seminar room: seminar,workshop
-Conferences room: conference,meeting
-Pavilion: pavilion`,
+    rules: DEFAULT_RULES,
+    from: format(subMonths(new Date(), 12), "yyyy-MM-dd"),
+    to: format(addMonths(new Date(), 12), "yyyy-MM-dd"),
   });
 
-  async function importICSFile(file: File) {
+  async function readICSFile(file: File) {
     const txt = await file.text();
-    const rules = parseRules(icsDefaults.rules);
-    const lines = unfoldICSLines(txt);
-    const blocks: string[][] = [];
-    let cur: string[] | null = null;
-    for (const line of lines) {
-      if (line === "BEGIN:VEVENT") cur = [];
-      else if (line === "END:VEVENT") { if (cur) { blocks.push(cur); cur = null; } }
-      else if (cur) cur.push(line);
-    }
-    const imported: EventRow[] = [];
-    for (const b of blocks) {
-      const p = readProps(b);
-      const d1 = asLocal(p["DTSTART"]); const d2 = asLocal(p["DTEND"]);
-      if (!d1 || !d2) continue;
-      const name = p["SUMMARY"] || "";
-      const loc = p["LOCATION"] || "";
-      const desc = p["DESCRIPTION"] || "";
-      const uid = p["UID"] || crypto.randomUUID();
-      const date = fmtDate(d1); const start = fmtTime(d1); const end = fmtTime(d2);
-      const mappedRooms = guessRooms(name, loc, rules);
-      imported.push({
-        id: uid,
-        name, date, start, end,
-        rooms: mappedRooms as Room[],
-        status: icsDefaults.status,
-        guests: icsDefaults.guests,
-        rate: icsDefaults.rate,
-        day: icsDefaults.day,
-        fee: icsDefaults.fee,
-        food: 0,
-        drinks: 0,
-        notes: desc || loc,
-        cancelReason: "",
-      });
+    return parseICS(txt, icsDefaults, roomNames(catalog), calendarName(txt) || file.name);
+  }
+  async function importICSFiles(files: File[]) {
+    const known = expandSeries(events, icsDefaults.from, icsDefaults.to);
+    const added: EventRow[] = [];
+    const report: string[] = [];
+    const sources = new Set<string>();
+    for (const file of files) {
+      const imported = await readICSFile(file);
+      imported.forEach((r) => r.source && sources.add(r.source));
+      const clashes: string[] = [];
+      for (const row of imported) {
+        for (const c of findConflicts(row, known, buffers)) {
+          clashes.push(`  • "${row.name}" ${fmtSpan(row)} ${describeConflict(c)}`);
+        }
+        known.push(row);
+      }
+      added.push(...imported);
+      report.push(`${file.name}: ${imported.length} events, ${clashes.length} conflicts`, ...clashes);
     }
-    setEvents((prev) => [...prev, ...imported]);
-    alert(`${imported.length} events imported from .ics`);
+    // only events from the same calendar and inside the expansion window can have been removed upstream
+    const entries = diffImport(events, added, (e) =>
+      !!e.source && sources.has(e.source) && overlapsRange(e, icsDefaults.from, icsDefaults.to));
+    setPending({ label: files.map((f) => f.name).join(", "), entries, actions: {}, report });
   }
 
   /** -------------------- UI -------------------- */
@@ -399,22 +920,132 @@ Pavilion: pavilion`,
       <header className="flex items-center justify-between gap-2 flex-wrap">
         <div>
           <h1 className="text-2xl font-bold">Events Tracker</h1>
-          <p className="text-sm text-muted-foreground">Multi-room bookings · Revenue/Lost · Guests · .ics import</p>
+          <p className="text-sm text-muted-foreground">Multi-room bookings · Revenue/Lost · Guests · .ics/CSV import/export</p>
         </div>
         <div className="flex flex-wrap gap-2">
           <Button variant="secondary" onClick={exportJSON}><Download className="h-4 w-4 mr-2" />Export JSON</Button>
           <label className="inline-flex items-center gap-2 cursor-pointer">
-            <input type="file" accept="application/json" className="hidden" onChange={(e) => e.currentTarget.files?.[0] && importJSONFile(e.currentTarget.files[0])} />
+            <input type="file" accept="application/json" className="hidden" onChange={(e) => { const f = e.currentTarget.files?.[0]; e.currentTarget.value = ""; if (f) importJSONFile(f); }} />
             <span className="inline-flex items-center gap-2 px-4 py-2 rounded-md border"><Upload className="h-4 w-4" />Import JSON</span>
           </label>
+          <Select value={icsScope} onValueChange={setIcsScope}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All events</SelectItem>
+              <SelectItem value="filtered">Current filtered view</SelectItem>
+              {roomNames(catalog).map((r) => <SelectItem key={r} value={`room:${r}`}>Room: {r}</SelectItem>)}
+              {STATUSES.map((s) => <SelectItem key={s} value={`status:${s}`}>Status: {s}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button variant="secondary" onClick={exportICS}><Download className="h-4 w-4 mr-2" />Export .ics</Button>
           <label className="inline-flex items-center gap-2 cursor-pointer">
-            <input type="file" accept=".ics,text/calendar" className="hidden" onChange={(e) => e.currentTarget.files?.[0] && importICSFile(e.currentTarget.files[0])} />
+            <input type="file" accept=".ics,text/calendar" multiple className="hidden" onChange={(e) => { const fs = Array.from(e.currentTarget.files || []); e.currentTarget.value = ""; if (fs.length) importICSFiles(fs); }} />
             <span className="inline-flex items-center gap-2 px-4 py-2 rounded-md border"><Upload className="h-4 w-4" />Import .ics</span>
           </label>
+          <Select value={csvDialect} onValueChange={(v) => setCsvDialect(v as CsvDialect)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="us">CSV (comma, 1.5)</SelectItem>
+              <SelectItem value="eu">CSV (semicolon, 1,5)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="secondary" onClick={exportCSV} title="Exports the filtered table"><Download className="h-4 w-4 mr-2" />Export CSV</Button>
+          <label className="inline-flex items-center gap-2 cursor-pointer">
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => { const f = e.currentTarget.files?.[0]; e.currentTarget.value = ""; if (f) importCSVFile(f); }} />
+            <span className="inline-flex items-center gap-2 px-4 py-2 rounded-md border"><Upload className="h-4 w-4" />Import CSV</span>
+          </label>
+          <Button variant="secondary" onClick={() => setShowRooms((v) => !v)}><Settings className="h-4 w-4 mr-2" />Rooms</Button>
+          <Button variant="secondary" onClick={() => setShowClients((v) => !v)}><Users className="h-4 w-4 mr-2" />Clients</Button>
+          <Button variant="secondary" onClick={() => setShowPricing((v) => !v)}><Euro className="h-4 w-4 mr-2" />Pricing</Button>
+          <Button variant="secondary" onClick={() => setShowPolicy((v) => !v)}><Ban className="h-4 w-4 mr-2" />Cancellation</Button>
+          <Button variant="secondary" onClick={() => setShowCatering((v) => !v)}><UtensilsCrossed className="h-4 w-4 mr-2" />Catering</Button>
+          <Button variant="secondary" onClick={() => setShowFinder((v) => !v)}><CalendarSearch className="h-4 w-4 mr-2" />Availability</Button>
+          <Button variant="outline" disabled={journal.cursor === 0} title="Undo (Ctrl+Z)" onClick={() => travelTo(journal.cursor - 1)}><Undo2 className="h-4 w-4" /></Button>
+          <Button variant="outline" disabled={journal.cursor === journal.entries.length} title="Redo (Ctrl+Shift+Z)" onClick={() => travelTo(journal.cursor + 1)}><Redo2 className="h-4 w-4" /></Button>
+          <Button variant="secondary" onClick={() => setShowHistory((v) => !v)}><History className="h-4 w-4 mr-2" />History</Button>
+          <Button variant="secondary" onClick={() => setShowSync((v) => !v)}>
+            {syncStatus.error ? <CloudOff className="h-4 w-4 mr-2" /> : <Cloud className="h-4 w-4 mr-2" />}Sync{syncInfo.pending ? ` (${syncInfo.pending})` : ""}
+          </Button>
           <Button variant="destructive" onClick={clearAll}><Trash2 className="h-4 w-4 mr-2" />Clear All</Button>
         </div>
       </header>
 
+      {loadIssues.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2"><CardTitle>Stored data needed repairs</CardTitle></CardHeader>
+          <CardContent className="space-y-2">
+            <pre className="text-xs whitespace-pre-wrap">{loadIssues.map(describeIssue).join("\n")}</pre>
+            {loadIssues.some((i) => i.errors.length > 0) && (
+              <p className="text-xs text-muted-foreground">Rejected rows were copied to localStorage key <code>events_tracker_rejected</code>.</p>
+            )}
+            <Button size="sm" variant="secondary" onClick={() => setLoadIssues([])}>Dismiss</Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {onFallback && (
+        <Card>
+          <CardHeader className="pb-2"><CardTitle>Limited storage</CardTitle></CardHeader>
+          <CardContent>
+            <p className="text-sm">
+              This browser's database could not be opened, so changes are kept in a smaller backup store and are not shared with other
+              open tabs. They are moved back once the database opens again, e.g. after a reload; close other tabs of this page until then.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {storeError && (
+        <Card>
+          <CardHeader className="pb-2"><CardTitle>Not saved</CardTitle></CardHeader>
+          <CardContent className="space-y-2">
+            <p className="text-sm">{storeError}</p>
+            <div className="flex gap-2">
+              {unsaved.current.size > 0 && <Button size="sm" variant="outline" onClick={() => persist([], events)}>Retry</Button>}
+              <Button size="sm" variant="secondary" onClick={() => setStoreError("")}>Dismiss</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {tabConflicts.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2"><CardTitle>Changed elsewhere</CardTitle></CardHeader>
+          <CardContent className="space-y-2">
+            {tabConflicts.map((c) => (
+              <div key={c.id} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="flex-1">
+                  "{(c.mine || c.theirs)?.name}" was {c.theirs ? "saved" : "deleted"} {c.server ? "on another machine" : "in another tab"} before
+                  your {c.mine ? "change" : "deletion"} was stored.
+                </span>
+                <Button size="sm" variant="outline" onClick={() => resolveConflict(c, "mine")}>Keep mine</Button>
+                <Button size="sm" variant="secondary" onClick={() => resolveConflict(c, "theirs")}>Take theirs</Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {csvImport && (
+        <CsvImport
+          key={csvImport.label}
+          label={csvImport.label}
+          text={csvImport.text}
+          rooms={roomNames(catalog)}
+          onImport={stageCSV}
+          onCancel={() => setCsvImport(null)}
+        />
+      )}
+
+      {pending && (
+        <ImportPreview
+          pending={pending}
+          onChange={(actions) => setPending((p) => (p ? { ...p, actions } : p))}
+          onApply={applyPending}
+          onCancel={() => setPending(null)}
+        />
+      )}
+
       {/* ICS defaults */}
       <Card>
         <CardHeader className="pb-2"><CardTitle>ICS Import Settings</CardTitle></CardHeader>
@@ -432,6 +1063,8 @@ Pavilion: pavilion`,
           <div><label className="text-xs">Hourly Rate €</label><Input type="number" step="0.01" value={icsDefaults.rate} onChange={(e) => setIcsDefaults((d) => ({ ...d, rate: toNum(e.target.value) }))} /></div>
           <div><label className="text-xs">Day Rate €</label><Input type="number" step="0.01" value={icsDefaults.day} onChange={(e) => setIcsDefaults((d) => ({ ...d, day: toNum(e.target.value) }))} /></div>
           <div><label className="text-xs">Fixed Fee €</label><Input type="number" step="0.01" value={icsDefaults.fee} onChange={(e) => setIcsDefaults((d) => ({ ...d, fee: toNum(e.target.value) }))} /></div>
+          <div><label className="text-xs">Expand recurring from</label><Input type="date" value={icsDefaults.from} onChange={(e) => setIcsDefaults((d) => ({ ...d, from: e.target.value }))} /></div>
+          <div><label className="text-xs">Expand recurring to</label><Input type="date" value={icsDefaults.to} onChange={(e) => setIcsDefaults((d) => ({ ...d, to: e.target.value }))} /></div>
           <div className="md:col-span-6">
             <label className="text-xs">Room mapping rules (one per line, e.g. <code>Cafe: cafe,barista</code>)</label>
             <Textarea value={icsDefaults.rules} onChange={(e) => setIcsDefaults((d) => ({ ...d, rules: e.target.value }))} rows={4} />
@@ -439,19 +1072,81 @@ Pavilion: pavilion`,
         </CardContent>
       </Card>
 
+      {showRooms && <RoomSettings catalog={catalog} onChange={setCatalog} onRename={renameRoomEverywhere} />}
+
+      {showClients && (
+        <ClientsPanel
+          clients={clients}
+          events={lifetimeEvents}
+          policy={policy}
+          selected={clientView}
+          onSelect={setClientView}
+          onChange={setClients}
+          onDelete={deleteClient}
+          onFilter={(id) => setFilter((f) => ({ ...f, client: id }))}
+          onOpenEvent={startEdit}
+        />
+      )}
+
+      {showSync && (
+        <SyncSettings
+          {...syncInfo}
+          {...syncStatus}
+          onConnect={connectSync}
+          onDisconnect={disconnectSync}
+          onSyncNow={runSync}
+        />
+      )}
+
+      {showHistory && (
+        <HistoryPanel
+          journal={journal}
+          snapshots={snapshots}
+          onTravel={travelTo}
+          onWho={(who) => setJournal((j) => ({ ...j, who }))}
+          onSnapshot={() => snapshot("Manual snapshot")}
+          onRestore={restoreSnapshot}
+          onDeleteSnapshot={(id) => setSnapshots((s) => s.filter((x) => x.id !== id))}
+        />
+      )}
+
+      {showPolicy && <CancellationSettings policy={policy} onChange={setPolicy} />}
+      {showCatering && <CateringSettings items={cateringItems} used={cateringUsed} onChange={setCateringItems} />}
+      {showFinder && <AvailabilityFinder events={events} catalog={catalog} buffers={buffers} onHold={holdSlot} />}
+
+      {showPricing && <PricingSettings rules={pricing} onChange={setPricing} repriceCount={filtered.length} onReprice={repriceFiltered} />}
+
+      {/* Room conflicts */}
+      <Card>
+        <CardHeader className="pb-2"><CardTitle>Room Conflicts</CardTitle></CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-6 gap-3">
+          <div>
+            <label className="text-xs">On conflict</label>
+            <Select value={conflictCfg.mode} onValueChange={(v) => setConflictCfg((c) => ({ ...c, mode: v as ConflictMode }))}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="warn">Warn</SelectItem>
+                <SelectItem value="block">Block</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="md:col-span-5 text-xs self-end pb-2">Setup and teardown buffers are set per room under <strong>Rooms</strong>.</p>
+        </CardContent>
+      </Card>
+
       {/* Filters */}
       <Card>
         <CardHeader className="pb-2">
           <CardTitle className="flex items-center gap-2"><Filter className="h-5 w-5" />Filters</CardTitle>
         </CardHeader>
         <CardContent className="grid grid-cols-1 md:grid-cols-6 gap-3">
-          <Input placeholder="Search name/notes…" value={filter.q} onChange={(e) => setFilter({ ...filter, q: e.target.value })} />
+          <Input placeholder="Search name/notes…" value={search} onChange={(e) => setSearch(e.target.value)} />
           <div>
             <Select value={filter.room} onValueChange={(v) => setFilter({ ...filter, room: v as Room })}>
               <SelectTrigger><SelectValue placeholder="All rooms" /></SelectTrigger>
               <SelectContent>
                 <SelectItem value="">All rooms</SelectItem>
-                {ROOMS.map((r) => <SelectItem key={r} value={r}>{r}</SelectItem>)}
+                {catalog.rooms.map((r) => <SelectItem key={r.name} value={r.name}>{r.name}{r.archived ? " (archived)" : ""}</SelectItem>)}
               </SelectContent>
             </Select>
           </div>
@@ -464,38 +1159,100 @@ Pavilion: pavilion`,
               </SelectContent>
             </Select>
           </div>
+          <div>
+            <Select value={filter.client} onValueChange={(v) => setFilter({ ...filter, client: v })}>
+              <SelectTrigger><SelectValue placeholder="All clients" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="">All clients</SelectItem>
+                {clientOptions.map((c) => <SelectItem key={c.id} value={c.id}>{clientLabel(c)}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Select value={filter.payment} onValueChange={(v) => setFilter({ ...filter, payment: v as PaymentState })}>
+              <SelectTrigger><SelectValue placeholder="All payment states" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="">All payment states</SelectItem>
+                {PAYMENT_STATES.map((s) => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
           <Input type="date" value={filter.from} onChange={(e) => setFilter({ ...filter, from: e.target.value })} />
           <Input type="date" value={filter.to} onChange={(e) => setFilter({ ...filter, to: e.target.value })} />
+          <label className="inline-flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={compare} onChange={(e) => setCompare(e.target.checked)} />
+            Compare with previous period and last year
+          </label>
+          {cmpRanges.length > 0 && (
+            <div className="text-xs text-muted-foreground self-center">
+              Compared with {cmpRanges.map((r) => `${r.from} – ${r.to}`).join(" and ")}
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* KPIs */}
       <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3">
-        <Metric title="Total Events" value={kpis.total} />
-        <Metric title="Taken" value={kpis.taken} />
-        <Metric title="Booked" value={kpis.booked} />
-        <Metric title="Canceled" value={kpis.canceled} />
-        <Metric title="On hold" value={kpis.hold} />
-        <Metric title="Free" value={kpis.free} />
-        <Metric title="Revenue €" value={`€ ${euro(kpis.revenue)}`} />
-        <Metric title="Lost €" value={`€ ${euro(kpis.lost)}`} />
-        <Metric title="Guests Hosted" value={kpis.guests} />
+        <Metric title="Total Events" value={kpis.total} delta={delta("total")} />
+        <Metric title="Taken" value={kpis.taken} delta={delta("taken")} />
+        <Metric title="Booked" value={kpis.booked} delta={delta("booked")} />
+        <Metric title="Canceled" value={kpis.canceled} delta={delta("canceled", false, true)} />
+        <Metric title="On hold" value={kpis.hold} delta={delta("hold")} />
+        <Metric title="Free" value={kpis.free} delta={delta("free")} />
+        <Metric title="Revenue €" value={`€ ${euro(kpis.revenue)}`} delta={delta("revenue", true)} />
+        <Metric title="Revenue net €" value={`€ ${euro(kpis.net)}`} delta={delta("net", true)} />
+        <Metric title="Cash received €" value={`€ ${euro(kpis.received)}`} delta={delta("received", true)} />
+        <Metric title="Outstanding €" value={`€ ${euro(kpis.outstanding)}`} delta={delta("outstanding", true, true)} />
+        <Metric title="Fees retained €" value={`€ ${euro(kpis.retained)}`} delta={delta("retained", true)} />
+        <Metric title="Net lost €" value={`€ ${euro(kpis.lost)}`} delta={delta("lost", true, true)} />
+        <Metric title="Guests Hosted" value={kpis.guests} delta={delta("guests")} />
       </div>
 
+      <Charts months={charts.months} rooms={charts.rooms} mix={charts.mix} onPick={applyPick} />
+
       {/* Add/Edit Form */}
       <Card>
         <CardHeader className="pb-2">
-          <CardTitle className="flex items-center gap-2"><Plus className="h-5 w-5" />{editingIndex.current === null ? "Add Event" : "Edit Event"}</CardTitle>
+          <CardTitle className="flex items-center gap-2"><Plus className="h-5 w-5" />{isNew ? "Add Event" : "Edit Event"}</CardTitle>
         </CardHeader>
         <CardContent className="grid grid-cols-1 md:grid-cols-6 gap-3">
+          {staleForm && (
+            <div className="md:col-span-6 flex flex-wrap items-center gap-2 text-xs text-amber-700 border border-amber-300 rounded-lg p-2">
+              {savedStatus ? "Another tab changed this event while you were editing it." : "Another tab deleted this event while you were editing it."}
+              {savedStatus && (
+                <Button size="sm" variant="outline" onClick={() => startEdit(form.occurrenceOf ? occurrenceRow(savedRow, form.occurrenceOf.date, priceOf) : savedRow)}>Load their version</Button>
+              )}
+            </div>
+          )}
           <Input placeholder="Name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
-          <Input type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} />
+          <div className="flex gap-1">
+            <Select value={form.clientId || ""} onValueChange={(v) => setForm({ ...form, clientId: v || undefined })}>
+              <SelectTrigger><SelectValue placeholder="Client" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="">No client</SelectItem>
+                {clientOptions.map((c) => <SelectItem key={c.id} value={c.id}>{clientLabel(c)}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" title="New client from the event name" onClick={clientFromForm}><Plus className="h-4 w-4" /></Button>
+          </div>
+          <Input type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value, endDate: "" })} />
           <Input type="time" value={form.start} onChange={(e) => setForm({ ...form, start: e.target.value })} />
           <Input type="time" value={form.end} onChange={(e) => setForm({ ...form, end: e.target.value })} />
+          <Input type="date" title="End date (leave as is for same-day or overnight events)" value={form.endDate || form.date} min={form.date} onChange={(e) => setForm({ ...form, endDate: e.target.value })} />
           <div>
-            <Select value={form.status} onValueChange={(v) => setForm({ ...form, status: v as Status })}>
+            <Select
+              value={form.status}
+              onValueChange={(v) =>
+                setForm({
+                  ...form,
+                  status: v as Status,
+                  canceledOn: v === "Canceled" ? form.canceledOn || format(new Date(), "yyyy-MM-dd") : form.canceledOn,
+                  holdUntil: v === "On hold" ? form.holdUntil || holdDefault() : form.holdUntil,
+                })
+              }
+            >
               <SelectTrigger><SelectValue placeholder="Status" /></SelectTrigger>
-              <SelectContent>{STATUSES.map((s) => <SelectItem key={s} value={s}>{s}</SelectItem>)}</SelectContent>
+              <SelectContent>{nextStatuses(savedStatus).map((s) => <SelectItem key={s} value={s}>{s}</SelectItem>)}</SelectContent>
             </Select>
           </div>
           <Input type="number" placeholder="Guests" value={form.guests} onChange={(e) => setForm({ ...form, guests: toNum(e.target.value) })} />
@@ -503,12 +1260,13 @@ Pavilion: pavilion`,
             <div className="text-sm font-medium mb-1 flex items-center justify-between">
               <span>Rooms (multi-select)</span>
               <div className="flex gap-2">
-                <Button variant="outline" size="sm" onClick={() => setForm((f) => ({ ...f, rooms: [...ROOMS] as Room[] }))}>Book entire project</Button>
-                <Button variant="outline" size="sm" onClick={() => setForm((f) => ({ ...f, rooms: ["Cafe", "Hall"] }))}>Cafe & Hall</Button>
+                {catalog.combos.map((k) => (
+                  <Button key={k.name} variant="outline" size="sm" onClick={() => setForm((f) => ({ ...f, rooms: [...k.rooms] }))}>{k.name}</Button>
+                ))}
               </div>
             </div>
             <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-              {ROOMS.map((r) => {
+              {catalog.rooms.filter((r) => !r.archived || form.rooms.includes(r.name)).map(({ name: r, archived }) => {
                 const checked = form.rooms.includes(r);
                 return (
                   <label key={r} className="inline-flex items-center gap-2 text-sm px-2 py-2 rounded-lg border">
@@ -518,29 +1276,150 @@ Pavilion: pavilion`,
                       onChange={(e) =>
                         setForm((f) => ({
                           ...f,
-                          rooms: e.target.checked ? (Array.from(new Set([...f.rooms, r])) as Room[]) : (f.rooms.filter((x) => x !== r) as Room[]),
+                          rooms: e.target.checked ? Array.from(new Set([...f.rooms, r])) : f.rooms.filter((x) => x !== r),
                         }))
                       }
                     />
-                    <span>{r}</span>
+                    <span>{r}{archived ? " (archived)" : ""}</span>
                   </label>
                 );
               })}
             </div>
+            {form.rooms.length > 0 && (
+              <div className="text-xs mt-2 flex flex-wrap items-center gap-3">
+                <span>Capacity: seated {formCapacity.seated || "?"} · standing {formCapacity.standing || "?"}</span>
+                <span>Room rates: € {euro(formRates.hourly)}/h · € {euro(formRates.day)}/day</span>
+                <Button variant="outline" size="sm" onClick={() => setForm((f) => ({ ...f, rate: formRates.hourly, day: formRates.day }))}>Use room rates</Button>
+                {formCapacityWarning && <span className="text-red-600 inline-flex items-center gap-1"><AlertTriangle className="h-4 w-4" />{formCapacityWarning}</span>}
+              </div>
+            )}
           </div>
 
           <Input type="number" step="0.01" placeholder="Hourly Rate €" value={form.rate} onChange={(e) => setForm({ ...form, rate: toNum(e.target.value) })} />
           <Input type="number" step="0.01" placeholder="Day Rate €" value={form.day} onChange={(e) => setForm({ ...form, day: toNum(e.target.value) })} />
           <Input type="number" step="0.01" placeholder="Fixed Fee €" value={form.fee} onChange={(e) => setForm({ ...form, fee: toNum(e.target.value) })} />
-          <Input type="number" step="0.01" placeholder="Food €" value={form.food} onChange={(e) => setForm({ ...form, food: toNum(e.target.value) })} />
-          <Input type="number" step="0.01" placeholder="Drinks €" value={form.drinks} onChange={(e) => setForm({ ...form, drinks: toNum(e.target.value) })} />
-          <Input placeholder="Canceled reason" value={form.cancelReason} onChange={(e) => setForm({ ...form, cancelReason: e.target.value })} />
+          <Input type="number" step="0.01" placeholder="Food €" title={form.catering ? "Computed from the catering lines" : undefined} disabled={!!form.catering} value={formFood} onChange={(e) => setForm({ ...form, food: toNum(e.target.value) })} />
+          <Input type="number" step="0.01" placeholder="Drinks €" title={form.catering ? "Computed from the catering lines" : undefined} disabled={!!form.catering} value={formDrinks} onChange={(e) => setForm({ ...form, drinks: toNum(e.target.value) })} />
+          <div className="flex gap-2">
+            <Select value={form.discount?.kind || "percent"} onValueChange={(v) => setForm({ ...form, discount: { kind: v as Discount["kind"], value: form.discount?.value || 0 } })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent">%</SelectItem>
+                <SelectItem value="fixed">€</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input type="number" step="0.01" min={0} placeholder="Discount" value={form.discount?.value || ""} onChange={(e) => setForm({ ...form, discount: { kind: form.discount?.kind || "percent", value: toNum(e.target.value) } })} />
+          </div>
+          <div>
+            <Select value={form.cancelReason || ""} onValueChange={(v) => setForm({ ...form, cancelReason: v })}>
+              <SelectTrigger><SelectValue placeholder="Cancellation reason" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="">No cancellation reason</SelectItem>
+                {formReasons.map((r) => <SelectItem key={r} value={r}>{r}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
           <Input placeholder="Notes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
 
+          {(statusChanged || form.status === "On hold") && (
+            <div className="md:col-span-6 flex flex-wrap items-center gap-3 text-xs">
+              {form.status === "On hold" && (
+                <label className="inline-flex items-center gap-2">
+                  Hold until
+                  <Input type="date" className="w-40" value={form.holdUntil || ""} onChange={(e) => setForm({ ...form, holdUntil: e.target.value })} />
+                </label>
+              )}
+              {statusChanged && (
+                <Input
+                  className="flex-1 min-w-[16rem]"
+                  placeholder={savedStatus ? `Comment on ${savedStatus} → ${form.status} (optional)` : "Comment (optional)"}
+                  value={statusComment}
+                  onChange={(e) => setStatusComment(e.target.value)}
+                />
+              )}
+            </div>
+          )}
+
+          {form.status === "Canceled" && (
+            <div className="md:col-span-6 flex flex-wrap items-center gap-3 text-xs">
+              <label className="inline-flex items-center gap-2">
+                Canceled on
+                <Input type="date" className="w-40" value={form.canceledOn || ""} onChange={(e) => setForm({ ...form, canceledOn: e.target.value })} />
+              </label>
+              {formCancel.tier ? (
+                <span>
+                  {formCancel.days} days notice → {formCancel.tier.fee}% fee: € {euro(formCancel.fee)} retained, € {euro(Math.max(0, formRental - Math.max(formCancel.fee, formPayment.received)))} net lost
+                </span>
+              ) : (
+                <span className="text-muted-foreground">No cancellation date, so no fee: the whole rental counts as lost.</span>
+              )}
+            </div>
+          )}
+
+          <div className="md:col-span-6 text-xs border rounded-lg p-2 space-y-1">
+            <div className="flex flex-wrap gap-x-3">
+              <span>Priced {formPrice.basis === "fee" ? "fixed fee" : formPrice.basis === "day" ? "day rate" : `${formPrice.hours} h`}: € {euro(formPrice.base)}</span>
+              {formPrice.multiplier !== 1 && <span>× {formPrice.multiplier}{formSeason ? ` (${formSeason.name})` : ""}</span>}
+              {formPrice.discount > 0 && <span>− € {euro(formPrice.discount)} discount ({describeDiscount(form.discount)})</span>}
+              <span className="font-medium">= rental € {euro(formPrice.rental)}</span>
+            </div>
+            {!isNew && formRental !== formPrice.rental && (
+              <div className="flex flex-wrap items-center gap-2 text-amber-700">
+                <span>Stored rental € {euro(formRental)} differs from the current rules.</span>
+                <Button size="sm" variant="outline" onClick={() => setForm((f) => ({ ...f, price: formPrice }))}>Recalculate</Button>
+              </div>
+            )}
+            <div>
+              Rental € {euro(formRental)} · Food € {euro(formFood)} · Drinks € {euro(formDrinks)} ·
+              Net € {euro(formTotals.net)} · VAT € {euro(formTotals.vat)} · <span className="font-medium">Gross € {euro(formTotals.gross)}</span>
+            </div>
+          </div>
+
+          <div className="md:col-span-6 space-y-2">
+            {form.occurrenceOf && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Repeat className="h-4 w-4" />
+                <span>Occurrence of {form.occurrenceOf.date} in a series. Save and Delete apply to</span>
+                <Select value={seriesScope} onValueChange={(v) => setSeriesScope(v as SeriesScope)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="this">this occurrence</SelectItem>
+                    <SelectItem value="following">this and following</SelectItem>
+                    <SelectItem value="all">all occurrences</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {(!form.occurrenceOf || seriesScope !== "this") && (
+              <SeriesEditor series={form.series} date={form.date} onChange={(series) => setForm((f) => ({ ...f, series }))} />
+            )}
+          </div>
+
+          <div className="md:col-span-6">
+            <CateringEditor event={form} catalog={cateringItems} onChange={(catering) => setForm((f) => ({ ...f, catering }))} />
+          </div>
+
+          <div className="md:col-span-6">
+            <PaymentsEditor ledger={form.ledger} total={formTotal} status={formPayment} onChange={(ledger) => setForm((f) => ({ ...f, ledger }))} />
+          </div>
+
+          {!isNew && !!form.history?.length && (
+            <div className="md:col-span-6 text-xs border rounded-lg p-2 space-y-1">
+              <div className="font-medium">Status history</div>
+              {[...form.history].reverse().map((h, i) => (
+                <div key={`${h.at}-${i}`} className="flex flex-wrap gap-x-3">
+                  <span className="text-muted-foreground">{format(new Date(h.at), "yyyy-MM-dd HH:mm")}</span>
+                  <span>{h.from ? `${h.from} → ${h.to}` : `created as ${h.to}`}</span>
+                  {h.comment && <span className="italic">{h.comment}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="md:col-span-6 flex gap-2">
-            <Button onClick={saveForm}>{editingIndex.current === null ? "Add" : "Save"}</Button>
-            {editingIndex.current !== null && (
-              <Button variant="destructive" onClick={() => { const id = filtered[editingIndex.current!]?.id; if (id) removeEvent(id); startAdd(); }}>
+            <Button onClick={saveForm}>{isNew ? "Add" : "Save"}</Button>
+            {!isNew && (
+              <Button variant="destructive" onClick={removeFromForm}>
                 <Trash2 className="h-4 w-4 mr-1" />Delete
               </Button>
             )}
@@ -549,63 +1428,36 @@ Pavilion: pavilion`,
         </CardContent>
       </Card>
 
+      <CalendarView
+        events={calendarEvents}
+        rooms={activeRooms(catalog).map((r) => r.name)}
+        onMove={rescheduleEvent}
+        onOpen={startEdit}
+        onRange={setCalendarRange}
+      />
+
       {/* Table */}
-      <Card>
-        <CardHeader className="pb-2"><CardTitle>Events</CardTitle></CardHeader>
-        <CardContent className="overflow-x-auto">
-          <table className="w-full text-sm">
-            <thead className="text-left sticky top-0 bg-background">
-              <tr>
-                <th className="py-2 pr-2">Date</th>
-                <th className="py-2 pr-2">Start</th>
-                <th className="py-2 pr-2">End</th>
-                <th className="py-2 pr-2">Name</th>
-                <th className="py-2 pr-2">Rooms</th>
-                <th className="py-2 pr-2">Status</th>
-                <th className="py-2 pr-2 text-right">Guests</th>
-                <th className="py-2 pr-2 text-right">Revenue €</th>
-                <th className="py-2 pr-2 text-right">Lost €</th>
-                <th className="py-2 pr-2">Notes</th>
-                <th className="py-2 pr-2"></th>
-              </tr>
-            </thead>
-            <tbody>
-              {filtered.map((e, idx) => (
-                <tr key={e.id || `${e.name}-${e.date}-${idx}`} className="border-t">
-                  <td className="py-2 pr-2 whitespace-nowrap">{e.date}</td>
-                  <td className="py-2 pr-2">{e.start}</td>
-                  <td className="py-2 pr-2">{e.end}</td>
-                  <td className="py-2 pr-2">{e.name}</td>
-                  <td className="py-2 pr-2">{(e.rooms || []).join(" · ")}</td>
-                  <td className="py-2 pr-2">{e.status}</td>
-                  <td className="py-2 pr-2 text-right">{e.guests || 0}</td>
-                  <td className="py-2 pr-2 text-right">€ {euro(revenueFor(e))}</td>
-                  <td className="py-2 pr-2 text-right">€ {euro(lostFor(e))}</td>
-                  <td className="py-2 pr-2 max-w-[16rem] truncate" title={e.notes}>{e.notes}</td>
-                  <td className="py-2 pr-2 text-right">
-                    <Button size="sm" variant="ghost" onClick={() => startEdit(idx)}>Edit</Button>
-                  </td>
-                </tr>
-              ))}
-              {filtered.length === 0 && (
-                <tr><td colSpan={11} className="py-6 text-center text-muted-foreground">No events found.</td></tr>
-              )}
-            </tbody>
-          </table>
-        </CardContent>
-      </Card>
+      <EventsTable
+        rows={filteredRows}
+        columns={columns}
+        onColumns={setColumns}
+        conflicts={conflicts}
+        seriesById={seriesById}
+        onEdit={startEdit}
+        onClient={(id) => { setClientView(id); setShowClients(true); }}
+      />
 
       {/* Per Room / Per Year */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
           <CardHeader className="pb-2"><CardTitle>Per Room</CardTitle></CardHeader>
           <CardContent className="space-y-1">
-            {ROOMS.map((r) => (
+            {Object.entries(perRoom).map(([r, v]) => (
               <div key={r} className="grid grid-cols-4 gap-2 text-sm">
                 <div className="font-medium">{r}</div>
-                <div>{perRoom[r].events}</div>
-                <div>€ {euro(perRoom[r].revenue)}</div>
-                <div>Lost € {euro(perRoom[r].lost)} · Guests {perRoom[r].guests}</div>
+                <div>{v.events}</div>
+                <div>€ {euro(v.revenue)}</div>
+                <div>Retained € {euro(v.retained)} · Net lost € {euro(v.lost)} · Guests {v.guests}</div>
               </div>
             ))}
           </CardContent>
@@ -614,30 +1466,87 @@ Pavilion: pavilion`,
           <CardHeader className="pb-2"><CardTitle>Per Year</CardTitle></CardHeader>
           <CardContent className="space-y-1">
             {perYear.map(([y, v]) => (
-              <div key={y} className="grid grid-cols-6 gap-2 text-sm">
+              <div key={y} className="grid grid-cols-7 gap-2 text-sm">
                 <div className="font-medium">{y}</div>
                 <div>{v.events}</div>
                 <div>Taken {v.taken}</div>
                 <div>Canceled {v.canceled}</div>
                 <div>€ {euro(v.revenue)}</div>
-                <div>Lost € {euro(v.lost)}</div>
+                <div>Retained € {euro(v.retained)}</div>
+                <div>Net lost € {euro(v.lost)}</div>
               </div>
             ))}
           </CardContent>
         </Card>
       </div>
+
+      <CateringSales sales={sales} />
+
+      {occupancyData && (
+        <OccupancyPanel
+          data={occupancyData}
+          revenue={Object.fromEntries(Object.entries(perRoom).map(([r, v]) => [r, v.revenue]))}
+          from={filter.from}
+          to={filter.to}
+        />
+      )}
+
+      <ForecastPanel data={forecast} probs={probs} onProbs={setProbs} />
+
+      {holds.placed + holds.converted + holds.expired + holds.released + holds.canceled > 0 && (
+        <Card>
+          <CardHeader className="pb-2"><CardTitle>Holds · {filter.from || "…"} – {filter.to || "…"}</CardTitle></CardHeader>
+          <CardContent className="grid grid-cols-2 md:grid-cols-6 gap-2 text-sm">
+            <div>Placed <span className="font-medium">{holds.placed}</span></div>
+            <div>Converted to booking <span className="font-medium">{holds.converted}</span></div>
+            <div>Expired <span className="font-medium">{holds.expired}</span></div>
+            <div>Released <span className="font-medium">{holds.released}</span></div>
+            <div>Canceled <span className="font-medium">{holds.canceled}</span></div>
+            <div>Conversion rate <span className="font-medium">{Math.round(holds.rate * 100)}%</span></div>
+          </CardContent>
+        </Card>
+      )}
+
+      {perReason.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2"><CardTitle>Cancellations by Reason</CardTitle></CardHeader>
+          <CardContent className="space-y-1">
+            {perReason.map(([r, v]) => (
+              <div key={r} className="grid grid-cols-4 gap-2 text-sm">
+                <div className="font-medium">{r}</div>
+                <div>{v.events}</div>
+                <div>Retained € {euro(v.retained)}</div>
+                <div>Net lost € {euro(v.lost)}</div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
 
+/** change of a metric against one comparison period */
+type Delta = { now: number; before: number; label: string; lowerIsBetter?: boolean };
+
 /** small metric card */
-function Metric({ title, value }: { title: string; value: React.ReactNode }) {
+function Metric({ title, value, delta = [] }: { title: string; value: React.ReactNode; delta?: Delta[] }) {
+  const change = delta.map((d) => {
+    const diff = d.now - d.before;
+    const good = d.lowerIsBetter ? diff < 0 : diff > 0;
+    const pct = d.before ? `${Math.round((Math.abs(diff) / Math.abs(d.before)) * 100)}%` : "new";
+    return (
+      <div key={d.label} className={`text-xs ${diff === 0 ? "text-muted-foreground" : good ? "text-green-600" : "text-red-600"}`}>
+        {diff === 0 ? "no change" : `${diff > 0 ? "▲" : "▼"} ${pct}`} vs {d.label}
+      </div>
+    );
+  });
   return (
     <Card>
       <CardHeader className="pb-1">
         <CardTitle className="text-sm font-medium">{title}</CardTitle>
       </CardHeader>
-      <CardContent><div className="text-xl font-bold">{value}</div></CardContent>
+      <CardContent><div className="text-xl font-bold">{value}</div>{change}</CardContent>
     </Card>
   );
 }
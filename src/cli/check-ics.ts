@@ -0,0 +1,63 @@
+/**
+ * Runs the calendars in samples/ics through the .ics import and compares the rows with
+ * samples/ics/expected.json; exits 1 when any differ.
+ *
+ *   npm run -s check:ics
+ *
+ * The samples cover what calendar apps send us: TZID and UTC times, all-day events, DURATION instead
+ * of DTEND, RRULE with EXDATE and a moved occurrence, a DTSTART the rule itself would skip, folded
+ * and escaped lines. Times are read as in Berlin so the expectations don't depend on the machine
+ * running the check.
+ */
+import { readFileSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import type { EventRow } from "../lib/events";
+import { DEFAULT_RULES, parseICS } from "../lib/ics";
+import { DEFAULT_ROOMS } from "../lib/rooms";
+
+process.env.TZ = "Europe/Berlin";
+
+const DIR = "samples/ics";
+const DEFAULTS = { status: "Booked" as const, guests: 0, rate: 0, day: 0, fee: 0, rules: DEFAULT_RULES, from: "2025-01-01", to: "2025-12-31" };
+
+/** The fields a sample pins down; notes only where the calendar has a description. */
+const shown = (e: EventRow) => ({
+  id: e.id,
+  name: e.name,
+  date: e.date,
+  start: e.start,
+  endDate: e.endDate,
+  end: e.end,
+  status: e.status,
+  rooms: e.rooms,
+  ...(e.notes ? { notes: e.notes } : {}),
+});
+
+function check() {
+  const expected: Record<string, ReturnType<typeof shown>[]> = JSON.parse(readFileSync(join(DIR, "expected.json"), "utf8"));
+  const files = readdirSync(DIR).filter((f) => f.endsWith(".ics")).sort();
+  let failed = 0;
+  for (const f of files) {
+    const got = parseICS(readFileSync(join(DIR, f), "utf8"), DEFAULTS, DEFAULT_ROOMS).map(shown);
+    const want = expected[f];
+    const problems: string[] = [];
+    if (!want) problems.push("no expectations in expected.json");
+    else {
+      if (got.length !== want.length) problems.push(`${got.length} events, expected ${want.length}`);
+      for (let i = 0; i < Math.max(got.length, want.length); i++) {
+        const a = JSON.stringify(got[i] ?? null), b = JSON.stringify(want[i] ?? null);
+        if (a !== b) problems.push(`event ${i + 1}\n      got      ${a}\n      expected ${b}`);
+      }
+    }
+    if (problems.length) failed++;
+    console.log(`${problems.length ? "FAIL" : "ok  "} ${f}${problems.map((p) => `\n    ${p}`).join("")}`);
+  }
+  for (const f of Object.keys(expected).filter((f) => !files.includes(f))) {
+    failed++;
+    console.log(`FAIL ${f}\n    listed in expected.json but missing`);
+  }
+  console.log(`${failed ? `${failed} failed` : "all as expected"} (${files.length} samples)`);
+  return failed ? 1 : 0;
+}
+
+process.exitCode = check();
@@ -0,0 +1,202 @@
+/**
+ * Events Tracker on the command line: reports, conversions and checks over exported data, so the
+ * monthly figures can be scripted. Reads an events.json export, an .ics calendar or a .csv file.
+ *
+ *   npm run -s cli -- report events.json --by room --from 2025-01-01 --to 2025-01-31 --format csv
+ *   npm run -s cli -- convert calendar.ics events.json
+ *   npm run -s cli -- validate events.json
+ *
+ * Money follows the same rules as the app (src/lib/reports.ts); pass --pricing / --policy with the
+ * JSON of the app's pricing rules and cancellation policy when they differ from the defaults.
+ */
+import { readFileSync, writeFileSync } from "node:fs";
+import { extname } from "node:path";
+import { STATUSES, fmtDate, overlapsRange, type EventRow, type Status } from "../lib/events";
+import { DEFAULT_POLICY, normalizePolicy } from "../lib/cancellation";
+import { eventsToCSV, readEventsCSV, toCSV } from "../lib/csv";
+import { DEFAULT_RULES, calendarName, parseICS, toICS } from "../lib/ics";
+import { DEFAULT_PRICING, normalizePricing, priceEvent } from "../lib/pricing";
+import { kpisOf, totalsByReason, totalsByRoom, totalsByYear } from "../lib/reports";
+import { describeIssue, readEnvelope, toEnvelope, type Validated } from "../lib/schema";
+import { expandSeries } from "../lib/series";
+
+const USAGE = `Usage:
+  report <file> [--by kpi|room|year|reason] [--format table|csv|json] [--from yyyy-MM-dd] [--to yyyy-MM-dd]
+  convert <in> <out>        formats by extension: .json, .ics, .csv ("-" as <out> prints JSON);
+                            .csv gets one row per occurrence of a series within --from/--to
+  validate <file>           lists rows that would be rejected or fixed up on import; exits 1 on errors
+
+Options:
+  --pricing <file>          pricing rules JSON (defaults to the app's defaults)
+  --policy <file>           cancellation policy JSON
+  --rules <file>            .ics room keyword rules, one "Room: keyword, keyword" per line
+  --status <status>         status of imported .ics events (default Taken)
+  --dialect us|eu           CSV written by "convert": commas and 1.5, or semicolons and 1,5 (default us)`;
+
+class UsageError extends Error {}
+
+/** `--name value` pairs and the remaining positional arguments. */
+function parseArgs(argv: string[]) {
+  const opts: Record<string, string> = {};
+  const args: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a.startsWith("--")) args.push(a);
+    else if (i + 1 >= argv.length) throw new UsageError(`${a} needs a value`);
+    else opts[a.slice(2)] = argv[++i];
+  }
+  return { opts, args };
+}
+
+const readJSON = (path: string) => JSON.parse(readFileSync(path, "utf8"));
+
+/** -------------------- Reading -------------------- */
+function readFile(path: string, opts: Record<string, string>): Validated {
+  const txt = readFileSync(path, "utf8");
+  switch (extname(path).toLowerCase()) {
+    case ".ics": {
+      const status = (opts.status || "Taken") as Status;
+      if (!STATUSES.includes(status)) throw new UsageError(`--status must be one of ${STATUSES.join(", ")}`);
+      const rules = opts.rules ? readFileSync(opts.rules, "utf8") : DEFAULT_RULES;
+      const rooms = rules.split("\n").map((l) => l.split(":")[0].trim()).filter(Boolean);
+      const { from, to } = windowOf(opts);
+      const defaults = { status, guests: 0, rate: 0, day: 0, fee: 0, rules, from, to };
+      return { rows: parseICS(txt, defaults, rooms, calendarName(txt) || path), issues: [] };
+    }
+    case ".csv":
+      return readEventsCSV(txt);
+    case ".json":
+      return readEnvelope(JSON.parse(txt));
+    default:
+      throw new UsageError(`don't know how to read "${path}" (expected .json, .ics or .csv)`);
+  }
+}
+
+/** Recurring events expand into the report window, or a year either side of today. */
+function windowOf(opts: Record<string, string>) {
+  const now = new Date();
+  return {
+    from: opts.from || fmtDate(new Date(now.getFullYear() - 1, now.getMonth(), now.getDate())),
+    to: opts.to || fmtDate(new Date(now.getFullYear() + 1, now.getMonth(), now.getDate())),
+  };
+}
+
+function load(path: string, opts: Record<string, string>) {
+  const { rows, issues } = readFile(path, opts);
+  const rejected = issues.filter((i) => i.errors.length).length;
+  if (rejected) console.error(`${path}: ${rejected} rows skipped, run "validate" for details`);
+  return rows;
+}
+
+/** -------------------- Output -------------------- */
+type Table = { header: string[]; rows: (string | number)[][] };
+
+const money = (n: number) => Math.round(n * 100) / 100;
+
+function print(t: Table, format: string) {
+  if (format === "json") {
+    const objects = t.rows.map((r) => Object.fromEntries(t.header.map((h, i) => [h, r[i]])));
+    return JSON.stringify(objects, null, 2) + "\n";
+  }
+  if (format === "csv") return toCSV(t.header, t.rows);
+  if (format !== "table") throw new UsageError("--format must be table, csv or json");
+  const cells = [t.header, ...t.rows.map((r) => r.map((v) => (typeof v === "number" ? v.toFixed(Number.isInteger(v) ? 0 : 2) : v)))];
+  const widths = t.header.map((_, i) => Math.max(...cells.map((r) => String(r[i]).length)));
+  const line = (r: (string | number)[], head: boolean) =>
+    r.map((v, i) => (!head && typeof t.rows[0]?.[i] === "number" ? String(v).padStart(widths[i]) : String(v).padEnd(widths[i]))).join("  ").trimEnd();
+  return [line(cells[0], true), widths.map((w) => "-".repeat(w)).join("  "), ...cells.slice(1).map((r) => line(r, false))].join("\n") + "\n";
+}
+
+/** -------------------- Commands -------------------- */
+function report(path: string, opts: Record<string, string>) {
+  const pricing = opts.pricing ? normalizePricing(readJSON(opts.pricing)) || DEFAULT_PRICING : DEFAULT_PRICING;
+  const policy = opts.policy ? normalizePolicy(readJSON(opts.policy)) || DEFAULT_POLICY : DEFAULT_POLICY;
+  const { from, to } = windowOf(opts);
+  // occurrences are priced for their own dates
+  let rows = expandSeries(load(path, opts), from, to, (e) => priceEvent(e, pricing));
+  if (opts.from || opts.to) rows = rows.filter((e) => overlapsRange(e, opts.from || e.date, opts.to || e.endDate || e.date));
+
+  let table: Table;
+  switch (opts.by || "kpi") {
+    case "kpi": {
+      const k = kpisOf(rows, pricing, policy);
+      table = { header: ["metric", "value"], rows: Object.entries(k).map(([m, v]) => [m, money(v)]) };
+      break;
+    }
+    case "room":
+      table = {
+        header: ["room", "events", "revenue", "retained", "lost", "guests"],
+        rows: Object.entries(totalsByRoom(rows, policy))
+          .sort((a, b) => a[0].localeCompare(b[0]))
+          .map(([room, t]) => [room, t.events, money(t.revenue), money(t.retained), money(t.lost), t.guests]),
+      };
+      break;
+    case "year":
+      table = {
+        header: ["year", "events", "taken", "canceled", "revenue", "retained", "lost", "guests"],
+        rows: totalsByYear(rows, policy)
+          .map(([year, t]) => [year, t.events, t.taken, t.canceled, money(t.revenue), money(t.retained), money(t.lost), t.guests]),
+      };
+      break;
+    case "reason":
+      table = {
+        header: ["reason", "events", "retained", "lost"],
+        rows: totalsByReason(rows, policy).map(([reason, t]) => [reason, t.events, money(t.retained), money(t.lost)]),
+      };
+      break;
+    default:
+      throw new UsageError("--by must be kpi, room, year or reason");
+  }
+  process.stdout.write(print(table, opts.format || "table"));
+}
+
+function convert(from: string, to: string, opts: Record<string, string>) {
+  if (!to) throw new UsageError("convert needs an input and an output file");
+  let rows: EventRow[] = load(from, opts);
+  let out: string;
+  if (to === "-" || extname(to).toLowerCase() === ".json") out = JSON.stringify(toEnvelope(rows), null, 2) + "\n";
+  else if (extname(to).toLowerCase() === ".ics") out = toICS(rows);
+  else if (extname(to).toLowerCase() === ".csv") {
+    // CSV has no place for a rule, so series are written out occurrence by occurrence
+    const { from: a, to: b } = windowOf(opts);
+    rows = expandSeries(rows, a, b);
+    out = eventsToCSV(rows, opts.dialect === "eu" ? "eu" : "us");
+  }
+  else throw new UsageError(`don't know how to write "${to}" (expected .json, .ics or .csv)`);
+  if (to === "-") process.stdout.write(out);
+  else {
+    writeFileSync(to, out);
+    console.error(`${to}: ${rows.length} events`);
+  }
+}
+
+function validate(path: string, opts: Record<string, string>) {
+  const { rows, issues } = readFile(path, opts);
+  for (const i of issues) console.log(describeIssue(i));
+  const rejected = issues.filter((i) => i.errors.length).length;
+  console.log(`${path}: ${rows.length} valid, ${rejected} rejected, ${issues.length - rejected} fixed up`);
+  return rejected ? 1 : 0;
+}
+
+function main(argv: string[]) {
+  const { opts, args } = parseArgs(argv);
+  const [cmd, file, out] = args;
+  if (!cmd || cmd === "help") {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!file) throw new UsageError(`${cmd} needs a file`);
+  if (cmd === "report") report(file, opts);
+  else if (cmd === "convert") convert(file, out, opts);
+  else if (cmd === "validate") return validate(file, opts);
+  else throw new UsageError(`unknown command "${cmd}"`);
+  return 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+  console.error(err instanceof Error ? err.message : String(err));
+  if (err instanceof UsageError) console.error(`\n${USAGE}`);
+  process.exitCode = 2;
+}
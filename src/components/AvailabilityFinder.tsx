@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import { Search } from "lucide-react";
+import { fmtDate, parseTime, type EventRow } from "@/lib/events";
+import type { RoomBuffers } from "@/lib/conflicts";
+import type { Catalog } from "@/lib/rooms";
+import { MAX_SLOTS, findSlots, type Slot, type SlotQuery } from "@/lib/availability";
+
+const num = (v: string) => (v === "" || isNaN(+v) ? 0 : Math.max(0, +v));
+const WEEK: [number, string][] = [[1, "Mon"], [2, "Tue"], [3, "Wed"], [4, "Thu"], [5, "Fri"], [6, "Sat"], [0, "Sun"]];
+const dayName = (date: string) => parseTime(date, "00:00").toLocaleDateString(undefined, { weekday: "short" });
+
+/** "Do you have space for 80 people on a Saturday evening in March?" */
+export function AvailabilityFinder({
+  events,
+  catalog,
+  buffers,
+  onHold,
+}: {
+  events: EventRow[];
+  catalog: Catalog;
+  buffers: RoomBuffers;
+  /** Prefills the add-event form with the slot as "On hold". */
+  onHold: (slot: Slot, guests: number) => void;
+}) {
+  const [q, setQ] = useState<SlotQuery>(() => {
+    const today = new Date();
+    return {
+      from: fmtDate(today),
+      to: fmtDate(new Date(today.getFullYear(), today.getMonth() + 1, today.getDate())),
+      weekdays: [],
+      earliest: "08:00",
+      latest: "24:00",
+      hours: 3,
+      guests: 0,
+      seating: "seated",
+      rooms: [],
+    };
+  });
+  const [slots, setSlots] = useState<Slot[] | null>(null);
+  const set = (p: Partial<SlotQuery>) => setQ((x) => ({ ...x, ...p }));
+  const toggle = <T,>(list: T[], v: T, on: boolean) => (on ? [...list, v] : list.filter((x) => x !== v));
+
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle>Find a Free Slot</CardTitle></CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="grid grid-cols-2 md:grid-cols-8 gap-2">
+          <div><label className="text-xs">From</label><Input type="date" value={q.from} onChange={(e) => set({ from: e.target.value })} /></div>
+          <div><label className="text-xs">To</label><Input type="date" value={q.to} min={q.from} onChange={(e) => set({ to: e.target.value })} /></div>
+          <div><label className="text-xs">Not before</label><Input type="time" value={q.earliest} onChange={(e) => set({ earliest: e.target.value })} /></div>
+          <div><label className="text-xs">Over by</label><Input type="time" value={q.latest === "24:00" ? "00:00" : q.latest} onChange={(e) => set({ latest: e.target.value === "00:00" ? "24:00" : e.target.value })} /></div>
+          <div><label className="text-xs">Hours</label><Input type="number" step="0.5" min={0.5} value={q.hours} onChange={(e) => set({ hours: num(e.target.value) })} /></div>
+          <div><label className="text-xs">Guests</label><Input type="number" min={0} value={q.guests} onChange={(e) => set({ guests: Math.round(num(e.target.value)) })} /></div>
+          <div>
+            <label className="text-xs">Capacity</label>
+            <Select value={q.seating} onValueChange={(v) => set({ seating: v as SlotQuery["seating"] })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="seated">Seated</SelectItem>
+                <SelectItem value="standing">Standing</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end">
+            <Button className="w-full" onClick={() => setSlots(findSlots(events, catalog, buffers, q))}><Search className="h-4 w-4 mr-1" />Search</Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-3 items-center">
+          <span className="text-xs">Days:</span>
+          {WEEK.map(([d, label]) => (
+            <label key={d} className="inline-flex items-center gap-1 text-xs">
+              <input type="checkbox" checked={q.weekdays.includes(d)} onChange={(e) => set({ weekdays: toggle(q.weekdays, d, e.target.checked) })} />
+              {label}
+            </label>
+          ))}
+          <span className="text-xs ml-4">Rooms:</span>
+          {catalog.rooms.filter((r) => !r.archived).map((r) => (
+            <label key={r.name} className="inline-flex items-center gap-1 text-xs">
+              <input type="checkbox" checked={q.rooms.includes(r.name)} onChange={(e) => set({ rooms: toggle(q.rooms, r.name, e.target.checked) })} />
+              {r.name}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">No days or rooms ticked means any. Rooms taken, on hold or booked (including their setup and teardown time), closed days and opening hours are skipped.</p>
+
+        {slots && (
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full">
+              <tbody>
+                {slots.map((s) => (
+                  <tr key={`${s.date}-${s.rooms.join("+")}`} className="border-t">
+                    <td className="py-1 pr-2 whitespace-nowrap">{dayName(s.date)} {s.date}</td>
+                    <td className="py-1 pr-2 whitespace-nowrap">
+                      {s.start}–{s.end}
+                      {s.lastStart !== s.start && <span className="text-xs text-muted-foreground"> (any start until {s.lastStart})</span>}
+                    </td>
+                    <td className="py-1 pr-2">{s.combo ? `${s.combo}: ` : ""}{s.rooms.join(" · ")}</td>
+                    <td className="py-1 pr-2 text-xs text-muted-foreground">{s.capacity ? `${s.capacity} ${q.seating}` : "capacity unknown"}</td>
+                    <td className="py-1 pr-2 text-right"><Button size="sm" variant="outline" onClick={() => onHold(s, q.guests)}>Hold</Button></td>
+                  </tr>
+                ))}
+                {slots.length === 0 && <tr><td className="py-4 text-center text-muted-foreground">Nothing free that fits.</td></tr>}
+              </tbody>
+            </table>
+            {slots.length >= MAX_SLOTS && <p className="text-xs text-muted-foreground mt-1">Showing the first {MAX_SLOTS} slots; narrow the search for more.</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,255 @@
+import { useEffect, useRef, useState, type CSSProperties, type DragEvent } from "react";
+import { DayPicker, type DayProps } from "react-day-picker";
+import { addDays, addMonths, format, startOfMonth, startOfWeek } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { daySegment, eventStart, fmtDate, fmtTime, moveEvent, type EventRow, type Room, type Status } from "@/lib/events";
+import { swapRoom } from "@/lib/rooms";
+
+type View = "month" | "week" | "timeline";
+
+const STATUS_TONES: Record<Status, string> = {
+  Taken: "bg-green-100 border-green-400 text-green-900",
+  Booked: "bg-blue-100 border-blue-400 text-blue-900",
+  "On hold": "bg-amber-100 border-amber-400 text-amber-900",
+  Canceled: "bg-gray-100 border-gray-300 text-gray-500 line-through",
+  Free: "bg-slate-50 border-slate-300 text-slate-500",
+};
+
+const HOUR_PX = 40;  // week view: height of one hour
+const MIN_PX = 1;    // timeline: width of one minute
+const SNAP = 15;     // minutes
+
+/** What is being dragged: the event, the room lane it was picked up from, and how far into the event it was grabbed. */
+type Drag = { id: string; room?: Room; grabMin: number };
+
+const hhmm = (min: number) => `${String(Math.floor(min / 60)).padStart(2, "0")}:${String(min % 60).padStart(2, "0")}`;
+const midnight = (day: string) => new Date(`${day}T00:00:00`);
+/** Minutes from the event's start to `min` minutes past midnight of `day`. */
+const sinceStart = (e: EventRow, day: string, min: number) => (midnight(day).getTime() + min * 60_000 - eventStart(e).getTime()) / 60_000;
+
+/** Side-by-side columns for overlapping segments of one day. */
+function columns<T extends { from: number; to: number }>(items: T[]) {
+  const ends: number[] = [];
+  const placed = [...items].sort((a, b) => a.from - b.from).map((it) => {
+    let col = ends.findIndex((end) => end <= it.from);
+    if (col < 0) col = ends.push(0) - 1;
+    ends[col] = it.to;
+    return { ...it, col };
+  });
+  return { placed, count: Math.max(1, ends.length) };
+}
+
+export function CalendarView({
+  events,
+  rooms,
+  onMove,
+  onOpen,
+  onRange,
+}: {
+  /** Recurring events as their occurrences over the dates reported to `onRange`. */
+  events: EventRow[];
+  /** Lanes of the timeline. */
+  rooms: Room[];
+  /** Called with the moved event; the caller validates and saves it like the form does. */
+  onMove: (row: EventRow) => void;
+  onOpen: (e: EventRow) => void;
+  /** The first and last date on screen, whenever they change. */
+  onRange: (range: { from: string; to: string }) => void;
+}) {
+  const [view, setView] = useState<View>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+  const drag = useRef<Drag | null>(null);
+
+  const byId = (id: string) => events.find((e) => e.id === id);
+  const step = (dir: number) =>
+    setCursor((c) => (view === "month" ? addMonths(c, dir) : addDays(c, dir * (view === "week" ? 7 : 1))));
+  const weekStart = startOfWeek(cursor, { weekStartsOn: 1 });
+  // the month grid always shows six weeks
+  const shownFrom = fmtDate(view === "month" ? startOfWeek(startOfMonth(cursor), { weekStartsOn: 1 }) : view === "week" ? weekStart : cursor);
+  const shownTo = fmtDate(view === "month" ? addDays(startOfWeek(startOfMonth(cursor), { weekStartsOn: 1 }), 41) : view === "week" ? addDays(weekStart, 6) : cursor);
+  useEffect(() => { onRange({ from: shownFrom, to: shownTo }); }, [shownFrom, shownTo, onRange]);
+  const label =
+    view === "month" ? format(cursor, "MMMM yyyy")
+      : view === "week" ? `${format(weekStart, "d MMM")} – ${format(addDays(weekStart, 6), "d MMM yyyy")}`
+        : format(cursor, "EEEE d MMMM yyyy");
+
+  function startDrag(ev: DragEvent, e: EventRow, grabMin = 0, room?: Room) {
+    if (!e.id) return;
+    drag.current = { id: e.id, room, grabMin };
+    ev.dataTransfer.setData("text/plain", e.id);
+    ev.dataTransfer.effectAllowed = "move";
+  }
+  /** Drops the dragged event at `day`; `atMin` is the pointer position in minutes, `room` the target lane. */
+  function drop(day: string, atMin?: number, room?: Room) {
+    const d = drag.current;
+    drag.current = null;
+    const e = d && byId(d.id);
+    if (!d || !e) return;
+    let row = moveEvent(e, day, e.start);
+    if (atMin !== undefined) {
+      // the new start may fall on the day before or after the one dropped on
+      const min = Math.round((atMin - d.grabMin) / SNAP) * SNAP;
+      const at = new Date(midnight(day).getTime() + min * 60_000);
+      row = moveEvent(e, fmtDate(at), fmtTime(at));
+    }
+    if (room && d.room && room !== d.room) row = { ...row, rooms: swapRoom(row.rooms, d.room, room) };
+    if (row.date === e.date && row.start === e.start && row.rooms.join() === e.rooms.join()) return;
+    onMove(row);
+  }
+  const allowDrop = (ev: DragEvent) => { ev.preventDefault(); ev.dataTransfer.dropEffect = "move"; };
+
+  const chip = (e: EventRow, extra = "", style?: CSSProperties, onDragStart?: (ev: DragEvent) => void) => (
+    <div
+      key={e.id}
+      draggable={!!e.id}
+      onDragStart={onDragStart || ((ev) => startDrag(ev, e))}
+      onClick={(ev) => { ev.stopPropagation(); onOpen(e); }}
+      title={`${e.name} · ${e.start}–${e.end} · ${e.rooms.join(", ")} · ${e.status}`}
+      className={`border rounded px-1 text-xs truncate cursor-grab ${STATUS_TONES[e.status]} ${extra}`}
+      style={style}
+    >
+      {e.start} {e.name}
+    </div>
+  );
+
+  /** -------- Month -------- */
+  function MonthDay({ day, modifiers, ...td }: DayProps) {
+    const key = fmtDate(day.date);
+    const list = events.filter((e) => e.date <= key && (e.endDate || e.date) >= key);
+    return (
+      <td {...td} className={`align-top border p-1 h-24 ${day.outside ? "bg-gray-50 text-gray-400" : ""} ${modifiers.today ? "bg-blue-50" : ""}`} onDragOver={allowDrop} onDrop={() => drop(key)}>
+        <div className="text-xs font-medium mb-1">{day.date.getDate()}</div>
+        <div className="space-y-0.5">
+          {list.slice(0, 4).map((e) => chip(e))}
+          {list.length > 4 && <div className="text-xs text-muted-foreground">+{list.length - 4} more</div>}
+        </div>
+      </td>
+    );
+  }
+
+  /** -------- Week -------- */
+  function weekView() {
+    const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+    return (
+      <div className="max-h-[36rem] overflow-y-auto border rounded-md">
+        <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))] sticky top-0 bg-background z-10 border-b text-xs font-medium">
+          <div />
+          {days.map((d) => <div key={d.toISOString()} className="p-1 text-center">{format(d, "EEE d")}</div>)}
+        </div>
+        <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))]">
+          <div>{Array.from({ length: 24 }, (_, h) => <div key={h} className="text-[10px] text-right pr-1 border-t" style={{ height: HOUR_PX }}>{hhmm(h * 60)}</div>)}</div>
+          {days.map((d) => {
+            const key = fmtDate(d);
+            const { placed, count } = columns(events.flatMap((e) => { const s = daySegment(e, key); return s ? [{ ...s, e }] : []; }));
+            return (
+              <div
+                key={key}
+                className="relative border-l"
+                style={{ height: 24 * HOUR_PX }}
+                onDragOver={allowDrop}
+                onDrop={(ev) => drop(key, ((ev.clientY - ev.currentTarget.getBoundingClientRect().top) / HOUR_PX) * 60)}
+              >
+                {Array.from({ length: 24 }, (_, h) => <div key={h} className="border-t" style={{ height: HOUR_PX }} />)}
+                {placed.map(({ e, from, to, col }) =>
+                  chip(e, "absolute overflow-hidden", {
+                    top: (from / 60) * HOUR_PX,
+                    height: Math.max(12, ((to - from) / 60) * HOUR_PX),
+                    left: `${(col / count) * 100}%`,
+                    width: `${100 / count}%`,
+                  }, (ev) => {
+                    // remember where on the block it was grabbed, so the drop keeps that point under the pointer
+                    const offset = ((ev.clientY - ev.currentTarget.getBoundingClientRect().top) / HOUR_PX) * 60;
+                    startDrag(ev, e, sinceStart(e, key, from + offset));
+                  }))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  /** -------- Timeline -------- */
+  function timelineView() {
+    const key = fmtDate(cursor);
+    const lanes = Array.from(new Set([...rooms, ...events.flatMap((e) => (daySegment(e, key) ? e.rooms : []))]));
+    return (
+      <div className="overflow-x-auto border rounded-md">
+        <div style={{ width: 24 * 60 * MIN_PX + 128 }}>
+          <div className="flex border-b text-[10px] sticky top-0 bg-background">
+            <div className="w-32 shrink-0" />
+            {Array.from({ length: 24 }, (_, h) => <div key={h} className="border-l pl-0.5" style={{ width: 60 * MIN_PX }}>{hhmm(h * 60)}</div>)}
+          </div>
+          {lanes.map((room) => {
+            const { placed, count } = columns(events.filter((e) => e.rooms.includes(room)).flatMap((e) => { const s = daySegment(e, key); return s ? [{ ...s, e }] : []; }));
+            const laneH = 28 * count;
+            return (
+              <div key={room} className="flex border-b">
+                <div className="w-32 shrink-0 text-xs font-medium p-1 truncate" title={room}>{room}</div>
+                <div
+                  className="relative bg-[repeating-linear-gradient(to_right,transparent,transparent_59px,#e5e7eb_59px,#e5e7eb_60px)]"
+                  style={{ width: 24 * 60 * MIN_PX, height: laneH }}
+                  onDragOver={allowDrop}
+                  onDrop={(ev) => drop(key, (ev.clientX - ev.currentTarget.getBoundingClientRect().left) / MIN_PX, room)}
+                >
+                  {placed.map(({ e, from, to, col }) =>
+                    chip(e, "absolute overflow-hidden", {
+                      left: from * MIN_PX,
+                      width: Math.max(8, (to - from) * MIN_PX),
+                      top: col * 28 + 2,
+                      height: 24,
+                    }, (ev) => {
+                      const offset = (ev.clientX - ev.currentTarget.getBoundingClientRect().left) / MIN_PX;
+                      startDrag(ev, e, sinceStart(e, key, from + offset), room);
+                    }))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+          <span>Calendar</span>
+          <div className="flex flex-wrap items-center gap-2 text-sm font-normal">
+            {(["month", "week", "timeline"] as View[]).map((v) => (
+              <Button key={v} size="sm" variant={view === v ? "default" : "outline"} onClick={() => setView(v)}>
+                {v === "timeline" ? "Rooms" : v[0].toUpperCase() + v.slice(1)}
+              </Button>
+            ))}
+            <Button size="sm" variant="ghost" onClick={() => step(-1)}><ChevronLeft className="h-4 w-4" /></Button>
+            <Button size="sm" variant="outline" onClick={() => setCursor(new Date())}>Today</Button>
+            <Button size="sm" variant="ghost" onClick={() => step(1)}><ChevronRight className="h-4 w-4" /></Button>
+            <span className="min-w-[12rem]">{label}</span>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {view === "month" && (
+          <DayPicker
+            month={cursor}
+            onMonthChange={setCursor}
+            weekStartsOn={1}
+            showOutsideDays
+            fixedWeeks
+            hideNavigation
+            components={{ Day: MonthDay }}
+            classNames={{ root: "w-full", months: "w-full", month: "w-full", month_caption: "hidden", month_grid: "w-full table-fixed border-collapse", weekday: "text-xs font-medium p-1" }}
+          />
+        )}
+        {view === "week" && weekView()}
+        {view === "timeline" && timelineView()}
+        <p className="text-xs text-muted-foreground mt-2">
+          Drag a booking to move it{view === "timeline" ? "; drop it on another room's lane to change the room" : ""}. Click it to edit.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
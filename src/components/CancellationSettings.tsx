@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Trash2 } from "lucide-react";
+import type { CancelPolicy, CancelTier } from "@/lib/cancellation";
+
+const num = (v: string) => (v === "" || isNaN(+v) ? 0 : Math.max(0, +v));
+
+export function CancellationSettings({ policy, onChange }: { policy: CancelPolicy; onChange: (p: CancelPolicy) => void }) {
+  // reasons are edited as text and only split into the list on blur, so blank lines can be typed
+  const [reasons, setReasons] = useState(policy.reasons.join("\n"));
+  const setTier = (i: number, p: Partial<CancelTier>) => onChange({ ...policy, tiers: policy.tiers.map((t, j) => (j === i ? { ...t, ...p } : t)) });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle>Cancellation Policy</CardTitle></CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <div className="text-sm font-medium flex items-center justify-between">
+            <span>Tiers (canceled at least N days before → fee % of the rental)</span>
+            <Button size="sm" variant="outline" onClick={() => onChange({ ...policy, tiers: [...policy.tiers, { days: 14, fee: 75 }] })}>
+              <Plus className="h-4 w-4 mr-1" />Add tier
+            </Button>
+          </div>
+          {policy.tiers.map((t, i) => (
+            <div key={i} className="grid grid-cols-5 gap-2 items-center text-sm">
+              <span>≥</span>
+              <Input type="number" min={0} value={t.days} onChange={(e) => setTier(i, { days: Math.round(num(e.target.value)) })} />
+              <span>days →</span>
+              <Input type="number" min={0} max={100} value={t.fee} onChange={(e) => setTier(i, { fee: Math.min(100, num(e.target.value)) })} />
+              <Button size="sm" variant="destructive" disabled={policy.tiers.length < 2} onClick={() => onChange({ ...policy, tiers: policy.tiers.filter((_, j) => j !== i) })}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">Canceled events without a cancellation date earn no fee.</p>
+        </div>
+        <div>
+          <label className="text-sm font-medium">Cancellation reasons (one per line)</label>
+          <Textarea
+            rows={8}
+            value={reasons}
+            onChange={(e) => setReasons(e.target.value)}
+            onBlur={() => {
+              const list = reasons.split("\n").map((r) => r.trim()).filter(Boolean);
+              if (list.length) onChange({ ...policy, reasons: list });
+              setReasons((list.length ? list : policy.reasons).join("\n"));
+            }}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { EventRow } from "@/lib/events";
+import { cateringTotals, customLine, lineFor, linesOf, quantityOf, type CateringItem, type CateringLine } from "@/lib/catering";
+
+const num = (v: string) => (v === "" || isNaN(+v) ? 0 : Math.max(0, +v));
+const euro = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const PER: Record<CateringLine["unit"], string> = { guest: "guests", hour: "hours", unit: "units" };
+
+/** Catering lines of the event being edited; flat food/drinks amounts show as custom lines until edited. */
+export function CateringEditor({
+  event,
+  catalog,
+  onChange,
+}: {
+  event: EventRow;
+  catalog: CateringItem[];
+  onChange: (lines: CateringLine[]) => void;
+}) {
+  const lines = linesOf(event);
+  const totals = cateringTotals(event, lines);
+  const setLine = (id: string, p: Partial<CateringLine>) => onChange(lines.map((l) => (l.id === id ? { ...l, ...p } : l)));
+  function add(id: string) {
+    const item = catalog.find((i) => i.id === id);
+    if (item) onChange([...lines, lineFor(item)]);
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium flex flex-wrap items-center gap-3">
+        <span>Catering</span>
+        <span className="text-xs font-normal">
+          Food € {euro(totals.food)} · Drinks € {euro(totals.drinks)}
+          {totals.cost > 0 && <> · cost € {euro(totals.cost)} · margin € {euro(totals.margin)}</>}
+        </span>
+      </div>
+      {lines.map((l) => {
+        const follows = l.unit !== "unit" && l.qty === undefined;
+        const qty = quantityOf(l, event);
+        return (
+          <div key={l.id} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center text-sm">
+            <span className="md:col-span-2">{l.name}<span className="text-xs text-muted-foreground"> · {l.kind}</span></span>
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                step="any"
+                min={0}
+                title={follows ? `Follows the event's ${PER[l.unit]}; type a number to override` : undefined}
+                placeholder={String(qty)}
+                value={follows ? "" : l.qty}
+                onChange={(e) => setLine(l.id, { qty: e.target.value === "" && l.unit !== "unit" ? undefined : num(e.target.value) })}
+              />
+              <span className="text-xs text-muted-foreground">{PER[l.unit]}</span>
+            </div>
+            <Input type="number" step="0.01" min={0} title="Price € per unit" value={l.price} onChange={(e) => setLine(l.id, { price: num(e.target.value) })} />
+            <span className="text-right">€ {euro(qty * l.price)}</span>
+            <Button size="sm" variant="destructive" onClick={() => onChange(lines.filter((x) => x.id !== l.id))}><Trash2 className="h-4 w-4" /></Button>
+          </div>
+        );
+      })}
+      <div className="flex flex-wrap gap-2">
+        <Select value="" onValueChange={add}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="">Add from catalog…</SelectItem>
+            {catalog.filter((i) => !i.archived).map((i) => <SelectItem key={i.id} value={i.id}>{i.group}: {i.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="outline" onClick={() => onChange([...lines, customLine("food", 0)])}><Plus className="h-4 w-4 mr-1" />Custom food</Button>
+        <Button size="sm" variant="outline" onClick={() => onChange([...lines, customLine("drinks", 0)])}><Plus className="h-4 w-4 mr-1" />Custom drinks</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ItemSales } from "@/lib/catering";
+
+const euro = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const UNITS: Record<ItemSales["unit"], string> = { guest: "guests", hour: "h", unit: "×" };
+
+/** Catering sold per item over the filtered events, with margins where cost prices are known. */
+export function CateringSales({ sales }: { sales: ItemSales[] }) {
+  const total = sales.reduce((t, s) => ({ revenue: t.revenue + s.revenue, cost: t.cost + s.cost, margin: t.margin + s.margin }), { revenue: 0, cost: 0, margin: 0 });
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle>Catering Sales</CardTitle></CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-left text-xs text-muted-foreground">
+            <tr>
+              <th className="py-1 pr-2">Item</th>
+              <th className="py-1 pr-2 text-right">Events</th>
+              <th className="py-1 pr-2 text-right">Sold</th>
+              <th className="py-1 pr-2 text-right">Revenue €</th>
+              <th className="py-1 pr-2 text-right">Cost €</th>
+              <th className="py-1 pr-2 text-right">Margin €</th>
+              <th className="py-1 pr-2 text-right">Margin %</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sales.map((s) => (
+              <tr key={s.name + s.kind} className="border-t">
+                <td className="py-1 pr-2">{s.name}<span className="text-xs text-muted-foreground"> · {s.kind}</span></td>
+                <td className="py-1 pr-2 text-right">{s.events}</td>
+                <td className="py-1 pr-2 text-right">{Math.round(s.qty * 10) / 10} {UNITS[s.unit]}</td>
+                <td className="py-1 pr-2 text-right">€ {euro(s.revenue)}</td>
+                <td className="py-1 pr-2 text-right">{s.costed ? `€ ${euro(s.cost)}` : "—"}</td>
+                <td className="py-1 pr-2 text-right">{s.costed ? `€ ${euro(s.margin)}` : "—"}</td>
+                <td className="py-1 pr-2 text-right">{s.costed && s.revenue ? `${Math.round((s.margin / s.revenue) * 100)}%` : "—"}</td>
+              </tr>
+            ))}
+            {sales.length === 0 && (
+              <tr><td colSpan={7} className="py-4 text-center text-muted-foreground">No catering in this range.</td></tr>
+            )}
+            {sales.length > 0 && (
+              <tr className="border-t font-medium">
+                <td className="py-1 pr-2" colSpan={3}>Total</td>
+                <td className="py-1 pr-2 text-right">€ {euro(total.revenue)}</td>
+                <td className="py-1 pr-2 text-right">€ {euro(total.cost)}</td>
+                <td className="py-1 pr-2 text-right">€ {euro(total.margin)}</td>
+                <td className="py-1 pr-2"></td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+        <p className="text-xs text-muted-foreground mt-2">Margins only cover lines with a cost price; custom amounts have none.</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { CATERING_GROUPS, CATERING_UNITS, newCateringItem, type CateringItem, type CateringKind, type CateringUnit } from "@/lib/catering";
+
+const num = (v: string) => (v === "" || isNaN(+v) ? 0 : Math.max(0, +v));
+const UNIT_LABELS: Record<CateringUnit, string> = { guest: "per guest", hour: "per hour", unit: "per unit" };
+
+/** The catering catalog: menus, drink packages and add-ons with their prices and optional cost prices. */
+export function CateringSettings({
+  items,
+  used,
+  onChange,
+}: {
+  items: CateringItem[];
+  /** Ids of items on at least one event; those are archived instead of deleted. */
+  used: Set<string>;
+  onChange: (items: CateringItem[]) => void;
+}) {
+  const set = (id: string, p: Partial<CateringItem>) => onChange(items.map((i) => (i.id === id ? { ...i, ...p } : i)));
+
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle>Catering Catalog</CardTitle></CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {CATERING_GROUPS.map((group) => (
+          <div key={group} className="space-y-2">
+            <div className="font-medium flex items-center justify-between">
+              <span>{group}s</span>
+              <Button size="sm" variant="outline" onClick={() => onChange([...items, newCateringItem(group)])}><Plus className="h-4 w-4 mr-1" />Add</Button>
+            </div>
+            {items.filter((i) => i.group === group).map((i) => (
+              <div key={i.id} className={`grid grid-cols-2 md:grid-cols-7 gap-2 items-center ${i.archived ? "opacity-60" : ""}`}>
+                <Input className="md:col-span-2" placeholder="Name" value={i.name} onChange={(e) => set(i.id, { name: e.target.value })} />
+                <Select value={i.kind} onValueChange={(v) => set(i.id, { kind: v as CateringKind })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="food">Food</SelectItem>
+                    <SelectItem value="drinks">Drinks</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={i.unit} onValueChange={(v) => set(i.id, { unit: v as CateringUnit })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>{CATERING_UNITS.map((u) => <SelectItem key={u} value={u}>{UNIT_LABELS[u]}</SelectItem>)}</SelectContent>
+                </Select>
+                <Input type="number" step="0.01" min={0} title="Price €" placeholder="Price €" value={i.price} onChange={(e) => set(i.id, { price: num(e.target.value) })} />
+                <Input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  title="Cost €, leave empty when unknown"
+                  placeholder="Cost €"
+                  value={i.cost ?? ""}
+                  onChange={(e) => set(i.id, { cost: e.target.value === "" ? undefined : num(e.target.value) })}
+                />
+                {used.has(i.id) ? (
+                  <label className="inline-flex items-center gap-2 text-xs">
+                    <input type="checkbox" checked={!!i.archived} onChange={(e) => set(i.id, { archived: e.target.checked || undefined })} />
+                    Archived
+                  </label>
+                ) : (
+                  <Button size="sm" variant="destructive" onClick={() => onChange(items.filter((x) => x.id !== i.id))}><Trash2 className="h-4 w-4" /></Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          Events keep the price they were booked at; changing a price here only affects lines added afterwards. Items already on events can be archived but not deleted.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
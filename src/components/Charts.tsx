@@ -0,0 +1,135 @@
+import type { ReactElement } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { STATUSES, type Room, type Status } from "@/lib/events";
+import type { MonthPoint } from "@/lib/charts";
+
+const STATUS_COLORS: Record<Status, string> = {
+  Taken: "#16a34a",
+  Booked: "#2563eb",
+  "On hold": "#d97706",
+  Canceled: "#6b7280",
+  Free: "#cbd5e1",
+};
+const MIX_COLORS = ["#2563eb", "#16a34a", "#d97706"];
+
+const euro = (n: number) => `€ ${Number(n || 0).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+const money = (v: unknown) => euro(Number(v));
+
+/** What a click on a chart narrows the dashboard to. */
+export type ChartPick = { month?: string; room?: Room; status?: Status };
+
+function Panel({ title, children }: { title: string; children: ReactElement }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle className="text-base">{title}</CardTitle></CardHeader>
+      <CardContent>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">{children}</ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function Charts({
+  months,
+  rooms,
+  mix,
+  onPick,
+}: {
+  months: MonthPoint[];
+  rooms: { room: Room; revenue: number; guests: number }[];
+  mix: { name: string; value: number }[];
+  onPick: (p: ChartPick) => void;
+}) {
+  const pickMonth = (extra: ChartPick = {}) => (s: { activeLabel?: string | number }) => {
+    if (s?.activeLabel) onPick({ month: String(s.activeLabel), ...extra });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Panel title="Revenue vs net lost per month">
+        <BarChart data={months} onClick={pickMonth()}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="month" fontSize={11} />
+          <YAxis fontSize={11} tickFormatter={euro} />
+          <Tooltip formatter={money} />
+          <Legend />
+          <Bar dataKey="revenue" name="Revenue" fill="#16a34a" cursor="pointer" />
+          <Bar dataKey="lost" name="Net lost" fill="#dc2626" cursor="pointer" />
+        </BarChart>
+      </Panel>
+
+      <Panel title="Status mix per month">
+        <BarChart data={months}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="month" fontSize={11} />
+          <YAxis fontSize={11} allowDecimals={false} />
+          <Tooltip />
+          <Legend />
+          {STATUSES.map((s) => (
+            <Bar
+              key={s}
+              dataKey={s}
+              stackId="status"
+              fill={STATUS_COLORS[s]}
+              cursor="pointer"
+              onClick={(d: { payload?: MonthPoint }) => d.payload && onPick({ month: d.payload.month, status: s })}
+            />
+          ))}
+        </BarChart>
+      </Panel>
+
+      <Panel title="Revenue and guests per room">
+        <BarChart data={rooms} onClick={(s: { activeLabel?: string | number }) => s?.activeLabel && onPick({ room: String(s.activeLabel) })}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="room" fontSize={11} />
+          <YAxis yAxisId="money" fontSize={11} tickFormatter={euro} />
+          <YAxis yAxisId="guests" orientation="right" fontSize={11} allowDecimals={false} />
+          <Tooltip formatter={(v, name) => (name === "Guests" ? v : money(v))} />
+          <Legend />
+          <Bar yAxisId="money" dataKey="revenue" name="Revenue" fill="#2563eb" cursor="pointer" />
+          <Bar yAxisId="guests" dataKey="guests" name="Guests" fill="#a855f7" cursor="pointer" />
+        </BarChart>
+      </Panel>
+
+      <Panel title="Rental vs food & drinks">
+        <PieChart>
+          <Tooltip formatter={money} />
+          <Legend />
+          <Pie data={mix} dataKey="value" nameKey="name" outerRadius="80%" label={({ name, percent }) => `${name} ${Math.round(Number(percent ?? 0) * 100)}%`}>
+            {mix.map((m, i) => <Cell key={m.name} fill={MIX_COLORS[i % MIX_COLORS.length]} />)}
+          </Pie>
+        </PieChart>
+      </Panel>
+
+      <Panel title="Cancellations per month">
+        <LineChart data={months} onClick={pickMonth({ status: "Canceled" })}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="month" fontSize={11} />
+          <YAxis yAxisId="count" fontSize={11} allowDecimals={false} />
+          <YAxis yAxisId="money" orientation="right" fontSize={11} tickFormatter={euro} />
+          <Tooltip formatter={(v, name) => (name === "Canceled" ? v : money(v))} />
+          <Legend />
+          <Line yAxisId="count" type="monotone" dataKey="canceled" name="Canceled" stroke="#6b7280" />
+          <Line yAxisId="money" type="monotone" dataKey="lost" name="Net lost" stroke="#dc2626" />
+        </LineChart>
+      </Panel>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Filter, Plus, Trash2 } from "lucide-react";
+import { fmtSpan, type EventRow } from "@/lib/events";
+import type { CancelPolicy } from "@/lib/cancellation";
+import { revenueFor } from "@/lib/reports";
+import { clientLabel, clientMatches, clientRanking, newClient, parseTags, type Client } from "@/lib/clients";
+
+const euro = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+
+/** Tags edited as "a, b" text and split on blur. */
+function TagsInput({ value, onCommit }: { value: string[]; onCommit: (v: string[]) => void }) {
+  const [draft, setDraft] = useState(value.join(", "));
+  const [prev, setPrev] = useState(value);
+  if (prev !== value) { setPrev(value); setDraft(value.join(", ")); }
+  return <Input placeholder="Tags, comma separated" value={draft} onChange={(e) => setDraft(e.target.value)} onBlur={() => onCommit(parseTags(draft))} />;
+}
+
+export function ClientsPanel({
+  clients,
+  events,
+  policy,
+  selected,
+  onSelect,
+  onChange,
+  onDelete,
+  onFilter,
+  onOpenEvent,
+}: {
+  clients: Client[];
+  /** All events; the figures are lifetime, not limited to the filtered range. */
+  events: EventRow[];
+  policy: CancelPolicy;
+  selected: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (clients: Client[]) => void;
+  onDelete: (c: Client) => void;
+  /** Shows only this client's events in the main table. */
+  onFilter: (id: string) => void;
+  onOpenEvent: (e: EventRow) => void;
+}) {
+  const [q, setQ] = useState("");
+  const ranking = useMemo(() => clientRanking(clients, events, policy), [clients, events, policy]);
+  const shown = q ? ranking.filter((r) => clientMatches(r.client, q.toLowerCase())) : ranking;
+  const current = ranking.find((r) => r.client.id === selected);
+  const history = useMemo(
+    () => (selected ? events.filter((e) => e.clientId === selected).sort((a, b) => (a.date < b.date ? 1 : -1)) : []),
+    [events, selected],
+  );
+  const set = (p: Partial<Client>) => onChange(clients.map((c) => (c.id === selected ? { ...c, ...p } : c)));
+  function add() {
+    const c = newClient("New client");
+    onChange([...clients, c]);
+    onSelect(c.id);
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle>Clients</CardTitle></CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm">
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input placeholder="Search clients…" value={q} onChange={(e) => setQ(e.target.value)} />
+            <Button size="sm" variant="outline" onClick={add}><Plus className="h-4 w-4 mr-1" />Add client</Button>
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full">
+              <thead className="text-left text-xs text-muted-foreground">
+                <tr>
+                  <th className="py-1 pr-2">Client</th>
+                  <th className="py-1 pr-2 text-right">Events</th>
+                  <th className="py-1 pr-2 text-right">Revenue €</th>
+                  <th className="py-1 pr-2 text-right">Canceled</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map(({ client, stats }) => (
+                  <tr key={client.id} className={`border-t cursor-pointer ${client.id === selected ? "bg-gray-100" : ""}`} onClick={() => onSelect(client.id)}>
+                    <td className="py-1 pr-2">
+                      {clientLabel(client)}
+                      {client.tags.length > 0 && <span className="ml-2 text-xs text-muted-foreground">{client.tags.join(" · ")}</span>}
+                    </td>
+                    <td className="py-1 pr-2 text-right">{stats.events}</td>
+                    <td className="py-1 pr-2 text-right">€ {euro(stats.revenue)}</td>
+                    <td className="py-1 pr-2 text-right">{stats.events ? pct(stats.cancelRate) : "—"}</td>
+                  </tr>
+                ))}
+                {shown.length === 0 && (
+                  <tr><td colSpan={4} className="py-4 text-center text-muted-foreground">{clients.length ? "No client matches." : "No clients yet."}</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground">Best customers first, by lifetime revenue.</p>
+        </div>
+
+        {current ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <Input placeholder="Organisation" value={current.client.org} onChange={(e) => set({ org: e.target.value })} />
+              <Input placeholder="Contact person" value={current.client.contact} onChange={(e) => set({ contact: e.target.value })} />
+              <Input type="email" placeholder="Email" value={current.client.email} onChange={(e) => set({ email: e.target.value })} />
+              <Input type="tel" placeholder="Phone" value={current.client.phone} onChange={(e) => set({ phone: e.target.value })} />
+              <Textarea className="md:col-span-2" rows={2} placeholder="Billing address" value={current.client.address} onChange={(e) => set({ address: e.target.value })} />
+              <div className="md:col-span-2"><TagsInput value={current.client.tags} onCommit={(tags) => set({ tags })} /></div>
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              <span>{current.stats.events} events · {current.stats.taken} taken · {current.stats.canceled} canceled ({pct(current.stats.cancelRate)})</span>
+              <span>Revenue € {euro(current.stats.revenue)}</span>
+              <span>Retained € {euro(current.stats.retained)}</span>
+              <span>Net lost € {euro(current.stats.lost)}</span>
+              {current.stats.first && <span className="text-muted-foreground">Client since {current.stats.first}</span>}
+            </div>
+            <div className="max-h-64 overflow-y-auto border rounded-md">
+              <table className="w-full text-xs">
+                <tbody>
+                  {history.map((e) => (
+                    <tr key={e.id} className="border-t first:border-t-0 cursor-pointer hover:bg-gray-50" onClick={() => onOpenEvent(e)}>
+                      <td className="py-1 px-2 whitespace-nowrap">{fmtSpan(e)}</td>
+                      <td className="py-1 px-2">{e.name}</td>
+                      <td className="py-1 px-2">{e.status}</td>
+                      <td className="py-1 px-2 text-right">€ {euro(revenueFor(e))}</td>
+                    </tr>
+                  ))}
+                  {history.length === 0 && <tr><td className="py-3 text-center text-muted-foreground">No events for this client yet.</td></tr>}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => onFilter(current.client.id)}><Filter className="h-4 w-4 mr-1" />Show in table</Button>
+              <Button size="sm" variant="destructive" onClick={() => onDelete(current.client)}><Trash2 className="h-4 w-4 mr-1" />Delete client</Button>
+              <Button size="sm" variant="secondary" onClick={() => onSelect(null)}>Close</Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-muted-foreground">Pick a client to see their details and booking history.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import type { EventRow, Room } from "@/lib/events";
+import { describeIssue, type RowIssue } from "@/lib/schema";
+import {
+  CSV_COLUMNS,
+  REQUIRED_FIELDS,
+  defaultMapOptions,
+  detectSeparator,
+  guessDateOrder,
+  guessMapping,
+  parseCSV,
+  readMapped,
+  type CsvField,
+  type DateOrder,
+  type MapOptions,
+} from "@/lib/csv";
+
+const SEPARATORS: [string, string][] = [[",", "Comma"], [";", "Semicolon"], ["\t", "Tab"]];
+const PREVIEW_LINES = 5;
+
+/** guessed mapping and options for a file read with `sep` */
+function guess(text: string, sep: string) {
+  const [header = [], ...lines] = parseCSV(text, sep);
+  const mapping = guessMapping(header);
+  const base = defaultMapOptions(sep === ";" ? "eu" : "us");
+  const dateCol = mapping.indexOf("date");
+  const dateOrder = dateCol < 0 ? base.dateOrder : guessDateOrder(lines.map((l) => l[dateCol] || ""), base.dateOrder);
+  const roomCol = mapping.indexOf("rooms");
+  const roomSeparator = roomCol >= 0 && lines.some((l) => (l[roomCol] || "").includes("|")) ? "|" : base.roomSeparator;
+  return { mapping, opts: { ...base, dateOrder, roomSeparator } };
+}
+
+/** Column-mapping step of a CSV import: nothing reaches the events until `onImport`. */
+export function CsvImport({
+  label,
+  text,
+  rooms,
+  onImport,
+  onCancel,
+}: {
+  label: string;
+  text: string;
+  rooms: Room[];
+  onImport: (rows: EventRow[], issues: RowIssue[]) => void;
+  onCancel: () => void;
+}) {
+  const [sep, setSep] = useState(() => detectSeparator(text));
+  const [mapping, setMapping] = useState(() => guess(text, sep).mapping);
+  const [opts, setOpts] = useState<MapOptions>(() => guess(text, sep).opts);
+  const table = useMemo(() => parseCSV(text, sep), [text, sep]);
+  const [header = [], ...lines] = table;
+  const result = useMemo(() => readMapped(table.slice(1), mapping, opts, rooms), [table, mapping, opts, rooms]);
+  const rejected = result.issues.filter((i) => i.errors.length).length;
+  const missing = REQUIRED_FIELDS.filter((f) => !mapping.includes(f));
+
+  function changeSeparator(next: string) {
+    const g = guess(text, next);
+    setSep(next);
+    setMapping(g.mapping);
+    setOpts(g.opts);
+  }
+  function mapColumn(col: number, field: CsvField | "") {
+    // a field maps to one column at most, so picking it again moves it here
+    setMapping((m) => m.map((f, i) => (i === col ? field : field && f === field ? "" : f)));
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle>CSV import · {label}</CardTitle></CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <div>
+            <label className="text-xs">Separator</label>
+            <Select value={sep} onValueChange={changeSeparator}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {SEPARATORS.map(([v, name]) => <SelectItem key={v} value={v}>{name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-xs">Numbers</label>
+            <Select value={opts.decimal} onValueChange={(v) => setOpts((o) => ({ ...o, decimal: v as MapOptions["decimal"] }))}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value=".">1,234.50</SelectItem>
+                <SelectItem value=",">1.234,50</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-xs">Dates</label>
+            <Select value={opts.dateOrder} onValueChange={(v) => setOpts((o) => ({ ...o, dateOrder: v as DateOrder }))}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="dmy">31.12.2025 (day first)</SelectItem>
+                <SelectItem value="mdy">12/31/2025 (month first)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-xs">Rooms separated by</label>
+            <Input value={opts.roomSeparator} onChange={(e) => setOpts((o) => ({ ...o, roomSeparator: e.target.value }))} />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                {header.map((h, i) => (
+                  <th key={i} className="p-1 text-left align-bottom font-normal">
+                    <div className="font-medium mb-1">{h || `Column ${i + 1}`}</div>
+                    <Select value={mapping[i] || ""} onValueChange={(v) => mapColumn(i, v as CsvField | "")}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="">(ignore)</SelectItem>
+                        {CSV_COLUMNS.map((c) => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {lines.slice(0, PREVIEW_LINES).map((l, r) => (
+                <tr key={r} className="border-t">
+                  {header.map((_, i) => <td key={i} className={`p-1 whitespace-nowrap ${mapping[i] ? "" : "text-gray-400"}`}>{l[i]}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {missing.length > 0 ? (
+          <p className="text-red-600">Choose a column for: {missing.join(", ")}.</p>
+        ) : (
+          <p>{result.rows.length} of {lines.length} rows valid{rejected ? `, ${rejected} rejected` : ""}{result.issues.length > rejected ? `, ${result.issues.length - rejected} fixed up` : ""}.</p>
+        )}
+        {missing.length === 0 && result.issues.length > 0 && (
+          // issue numbers count data lines, so line 1 is the one below the header
+          <pre className="text-xs whitespace-pre-wrap bg-gray-50 border rounded-md p-2 max-h-48 overflow-y-auto">{result.issues.map(describeIssue).join("\n")}</pre>
+        )}
+        <div className="flex gap-2">
+          <Button disabled={missing.length > 0 || result.rows.length === 0} onClick={() => onImport(result.rows, result.issues)}>Preview import</Button>
+          <Button variant="secondary" onClick={onCancel}>Cancel</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
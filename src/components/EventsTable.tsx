@@ -0,0 +1,180 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, ArrowDown, ArrowUp, Columns3, Repeat } from "lucide-react";
+import { PaymentBadge } from "@/components/PaymentsEditor";
+import type { EventRow } from "@/lib/events";
+import { describeConflict, type Conflict } from "@/lib/conflicts";
+import { describeSeries, type Series } from "@/lib/series";
+import { COLUMNS, DEFAULT_SORT, NUMERIC, sortRows, toggleSort, type Column, type SortKey, type TableRow } from "@/lib/table";
+
+const euro = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const PAGE_SIZES = [50, 100, 250, 1000];
+
+/**
+ * The filtered events, one page at a time. Click a header to sort by it, shift-click to add it as a
+ * further sort key; clicking again flips the direction.
+ */
+export function EventsTable({
+  rows,
+  columns,
+  onColumns,
+  conflicts,
+  seriesById,
+  onEdit,
+  onClient,
+}: {
+  rows: TableRow[];
+  columns: Column[];
+  onColumns: (cols: Column[]) => void;
+  /** By event id, see conflictIndex(). */
+  conflicts: Map<string, Conflict[]>;
+  seriesById: Map<string, Series>;
+  onEdit: (e: EventRow) => void;
+  onClient: (id: string) => void;
+}) {
+  const [sort, setSort] = useState<SortKey[]>(DEFAULT_SORT);
+  const [page, setPage] = useState(0);
+  const [size, setSize] = useState(PAGE_SIZES[0]);
+  const [picking, setPicking] = useState(false);
+  const sorted = useMemo(() => sortRows(rows, sort), [rows, sort]);
+  const pages = Math.max(1, Math.ceil(sorted.length / size));
+  const at = Math.min(page, pages - 1);
+  const visible = COLUMNS.filter((c) => columns.includes(c.key));
+
+  function cell(r: TableRow, col: Column) {
+    const e = r.e;
+    switch (col) {
+      case "date": return <td key={col} className="py-2 pr-2 whitespace-nowrap">{e.date}</td>;
+      case "start": return <td key={col} className="py-2 pr-2">{e.start}</td>;
+      case "end": return <td key={col} className="py-2 pr-2 whitespace-nowrap">{e.endDate && e.endDate !== e.date ? `${e.endDate} ` : ""}{e.end}</td>;
+      case "name":
+        return (
+          <td key={col} className="py-2 pr-2">
+            {e.name}
+            {e.occurrenceOf && seriesById.has(e.occurrenceOf.id) && (
+              <span title={describeSeries(seriesById.get(e.occurrenceOf.id)!)}>
+                <Repeat className="inline h-3 w-3 ml-1 text-muted-foreground" />
+              </span>
+            )}
+            {e.clientId && r.client && (
+              <button className="block text-xs text-muted-foreground hover:underline" onClick={() => onClient(e.clientId!)}>{r.client}</button>
+            )}
+          </td>
+        );
+      case "rooms": return <td key={col} className="py-2 pr-2">{(e.rooms || []).join(" · ")}</td>;
+      case "status": {
+        const clashes = e.id ? conflicts.get(e.id) : undefined;
+        return (
+          <td key={col} className="py-2 pr-2">
+            <span className="inline-flex items-center gap-1">
+              {e.status}
+              {e.holdUntil && <span className="text-xs text-muted-foreground">until {e.holdUntil}</span>}
+              {clashes && (
+                <span title={clashes.map(describeConflict).join("\n")}><AlertTriangle className="h-4 w-4 text-red-600" /></span>
+              )}
+            </span>
+          </td>
+        );
+      }
+      case "guests": return <td key={col} className="py-2 pr-2 text-right">{e.guests || 0}</td>;
+      case "hours": return <td key={col} className="py-2 pr-2 text-right">{Math.round(r.hours * 100) / 100}</td>;
+      case "revenue": return <td key={col} className="py-2 pr-2 text-right">€ {euro(r.revenue)}</td>;
+      case "lost":
+        return (
+          <td key={col} className="py-2 pr-2 text-right" title={e.status === "Canceled" ? `fees retained € ${euro(r.retained)}` : undefined}>€ {euro(r.lost)}</td>
+        );
+      case "payment": {
+        const paid = r.payment;
+        return (
+          <td key={col} className="py-2 pr-2 whitespace-nowrap">
+            <PaymentBadge
+              state={paid.state}
+              label={e.status === "Free" || (e.status === "Canceled" && !paid.received && !paid.balance) ? "—" : e.status === "Canceled" && !paid.balance ? "retained" : undefined}
+              title={`received € ${euro(paid.received)} · balance € ${euro(paid.balance)}`}
+            />
+          </td>
+        );
+      }
+      case "notes": return <td key={col} className="py-2 pr-2 max-w-[16rem] truncate" title={e.notes}>{e.notes}</td>;
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between">
+          <span>Events</span>
+          <Button size="sm" variant="outline" onClick={() => setPicking((v) => !v)}><Columns3 className="h-4 w-4 mr-1" />Columns</Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto space-y-2">
+        {picking && (
+          <div className="flex flex-wrap gap-3 text-xs border rounded-lg p-2">
+            {COLUMNS.map((c) => (
+              <label key={c.key} className="inline-flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={columns.includes(c.key)}
+                  disabled={columns.length === 1 && columns.includes(c.key)}
+                  onChange={(ev) => onColumns(ev.target.checked ? [...columns, c.key] : columns.filter((k) => k !== c.key))}
+                />
+                {c.label}
+              </label>
+            ))}
+          </div>
+        )}
+        <table className="w-full text-sm">
+          <thead className="text-left sticky top-0 bg-background">
+            <tr>
+              {visible.map((c) => {
+                const k = sort.findIndex((s) => s.col === c.key);
+                return (
+                  <th key={c.key} className={`py-2 pr-2 ${NUMERIC.includes(c.key) ? "text-right" : ""}`}>
+                    <button
+                      className="inline-flex items-center gap-0.5 hover:underline"
+                      title="Click to sort, shift-click to sort by this too"
+                      onClick={(ev) => { setSort((s) => toggleSort(s, c.key, ev.shiftKey)); setPage(0); }}
+                    >
+                      {c.label}
+                      {k >= 0 && (sort[k].dir === 1 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+                      {k >= 0 && sort.length > 1 && <span className="text-[10px] text-muted-foreground">{k + 1}</span>}
+                    </button>
+                  </th>
+                );
+              })}
+              <th className="py-2 pr-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.slice(at * size, (at + 1) * size).map((r, idx) => {
+              const e = r.e;
+              return (
+                <tr key={e.id || `${e.name}-${e.date}-${idx}`} className={`border-t ${e.id && conflicts.has(e.id) ? "bg-red-50" : ""}`}>
+                  {visible.map((c) => cell(r, c.key))}
+                  <td className="py-2 pr-2 text-right">
+                    <Button size="sm" variant="ghost" onClick={() => onEdit(e)}>Edit</Button>
+                  </td>
+                </tr>
+              );
+            })}
+            {sorted.length === 0 && (
+              <tr><td colSpan={visible.length + 1} className="py-6 text-center text-muted-foreground">No events found.</td></tr>
+            )}
+          </tbody>
+        </table>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span>{sorted.length ? `${at * size + 1}–${Math.min(sorted.length, (at + 1) * size)} of ${sorted.length}` : "0 events"}</span>
+          <Button size="sm" variant="outline" disabled={at === 0} onClick={() => setPage(at - 1)}>Previous</Button>
+          <Button size="sm" variant="outline" disabled={at >= pages - 1} onClick={() => setPage(at + 1)}>Next</Button>
+          <span>Rows per page</span>
+          <Select value={String(size)} onValueChange={(v) => { setSize(+v); setPage(0); }}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>{PAGE_SIZES.map((n) => <SelectItem key={n} value={String(n)}>{n}</SelectItem>)}</SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
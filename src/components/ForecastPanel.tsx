@@ -0,0 +1,64 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { FORECAST_MONTHS, type PipelineRow, type Probabilities } from "@/lib/forecast";
+
+const euro = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function Rows({ label, rows }: { label: string; rows: [string, PipelineRow][] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead className="text-left">
+        <tr>
+          <th className="py-1 pr-2">{label}</th>
+          <th className="py-1 pr-2 text-right">Events</th>
+          <th className="py-1 pr-2 text-right">Booked €</th>
+          <th className="py-1 pr-2 text-right">On hold €</th>
+          <th className="py-1 pr-2 text-right">Expected €</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([k, v]) => (
+          <tr key={k} className="border-t">
+            <td className="py-1 pr-2 font-medium">{k}</td>
+            <td className="py-1 pr-2 text-right">{v.events}</td>
+            <td className="py-1 pr-2 text-right">€ {euro(v.booked)}</td>
+            <td className="py-1 pr-2 text-right">€ {euro(v.hold)}</td>
+            <td className="py-1 pr-2 text-right font-medium">€ {euro(v.expected)}</td>
+          </tr>
+        ))}
+        {rows.length === 0 && <tr><td colSpan={5} className="py-3 text-center text-muted-foreground">No upcoming Booked or On hold events.</td></tr>}
+      </tbody>
+    </table>
+  );
+}
+
+export function ForecastPanel({
+  data,
+  probs,
+  onProbs,
+}: {
+  data: { total: PipelineRow; months: [string, PipelineRow][]; rooms: [string, PipelineRow][] };
+  probs: Probabilities;
+  onProbs: (p: Probabilities) => void;
+}) {
+  const pct = (v: string) => (v === "" || isNaN(+v) ? 0 : Math.min(100, Math.max(0, +v)) / 100);
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle>Pipeline Forecast</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4 text-sm">
+          <div><label className="text-xs">Booked → taken %</label><Input type="number" min={0} max={100} value={Math.round(probs.Booked * 100)} onChange={(e) => onProbs({ ...probs, Booked: pct(e.target.value) })} /></div>
+          <div><label className="text-xs">On hold → taken %</label><Input type="number" min={0} max={100} value={Math.round(probs["On hold"] * 100)} onChange={(e) => onProbs({ ...probs, "On hold": pct(e.target.value) })} /></div>
+          <div className="pb-2">
+            {data.total.events} upcoming · pipeline € {euro(data.total.booked + data.total.hold)} · <span className="font-medium">expected € {euro(data.total.expected)}</span>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Rows label="Month" rows={data.months} />
+          <Rows label="Room" rows={data.rooms} />
+        </div>
+        <p className="text-xs text-muted-foreground">Upcoming events are valued at rental plus food and drinks; recurring ones count for the next {FORECAST_MONTHS} months. Uses all filters except the date range.</p>
+      </CardContent>
+    </Card>
+  );
+}
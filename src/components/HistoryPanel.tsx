@@ -0,0 +1,85 @@
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Camera, Redo2, RotateCcw, Trash2, Undo2 } from "lucide-react";
+import { describeEntry, type Journal, type Snapshot } from "@/lib/journal";
+
+const when = (at: string) => format(new Date(at), "yyyy-MM-dd HH:mm");
+
+export function HistoryPanel({
+  journal,
+  snapshots,
+  onTravel,
+  onWho,
+  onSnapshot,
+  onRestore,
+  onDeleteSnapshot,
+}: {
+  journal: Journal;
+  snapshots: Snapshot[];
+  /** Undo or redo until `cursor` entries are applied. */
+  onTravel: (cursor: number) => void;
+  onWho: (who: string) => void;
+  onSnapshot: () => void;
+  onRestore: (s: Snapshot) => void;
+  onDeleteSnapshot: (id: string) => void;
+}) {
+  const { entries, cursor } = journal;
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle>History</CardTitle></CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Button size="sm" variant="outline" disabled={cursor === 0} onClick={() => onTravel(cursor - 1)}><Undo2 className="h-4 w-4 mr-1" />Undo</Button>
+            <Button size="sm" variant="outline" disabled={cursor === entries.length} onClick={() => onTravel(cursor + 1)}><Redo2 className="h-4 w-4 mr-1" />Redo</Button>
+            <label className="inline-flex items-center gap-2 ml-auto">
+              Changes by
+              <Input className="w-40" value={journal.who} onChange={(e) => onWho(e.target.value)} />
+            </label>
+          </div>
+          <div className="max-h-80 overflow-y-auto text-sm">
+            {entries.length === 0 && <p className="text-xs text-muted-foreground">No changes recorded yet.</p>}
+            {entries.map((e, i) => ({ e, i })).reverse().map(({ e, i }) => (
+              <div key={e.id} className={`flex flex-wrap items-center gap-x-3 border-t py-1 ${i >= cursor ? "text-muted-foreground line-through" : ""}`}>
+                <span className="text-xs">{when(e.at)}</span>
+                <span className="text-xs">{e.who}</span>
+                <span className="font-medium">{e.action}</span>
+                <span className="text-xs">{describeEntry(e)}</span>
+                {i + 1 !== cursor && (
+                  <Button size="sm" variant="outline" className="ml-auto" onClick={() => onTravel(i + 1)}>
+                    {i + 1 < cursor ? "Back to here" : "Redo to here"}
+                  </Button>
+                )}
+                {i + 1 === cursor && <span className="ml-auto text-xs font-medium">current</span>}
+              </div>
+            ))}
+            {entries.length > 0 && cursor > 0 && (
+              <div className="border-t py-1">
+                <Button size="sm" variant="outline" onClick={() => onTravel(0)}>Undo all {cursor} recorded changes</Button>
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <div className="text-sm font-medium flex items-center justify-between">
+            <span>Snapshots</span>
+            <Button size="sm" variant="outline" onClick={onSnapshot}><Camera className="h-4 w-4 mr-1" />Take snapshot</Button>
+          </div>
+          {snapshots.length === 0 && <p className="text-xs text-muted-foreground">Snapshots are also taken before Clear All, replacing imports and restores.</p>}
+          {snapshots.map((s) => (
+            <div key={s.id} className="flex items-center gap-2 text-sm border-t py-1">
+              <div className="flex-1">
+                <div className="font-medium">{s.label}</div>
+                <div className="text-xs text-muted-foreground">{when(s.at)} · {s.events.length} events</div>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => onRestore(s)}><RotateCcw className="h-4 w-4 mr-1" />Restore</Button>
+              <Button size="sm" variant="destructive" onClick={() => onDeleteSnapshot(s.id)}><Trash2 className="h-4 w-4" /></Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
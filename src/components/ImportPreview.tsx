@@ -0,0 +1,96 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import { fmtSpan } from "@/lib/events";
+import { defaultAction, type DiffKind, type PendingImport, type RowAction } from "@/lib/merge";
+
+const KINDS: DiffKind[] = ["new", "changed", "removed", "unchanged"];
+const LABELS: Record<DiffKind, string> = { new: "New", changed: "Changed", unchanged: "Unchanged", removed: "Removed upstream" };
+const TONES: Record<DiffKind, string> = {
+  new: "text-green-700",
+  changed: "text-amber-700",
+  unchanged: "text-gray-500",
+  removed: "text-red-600",
+};
+
+/** per-kind wording of the three actions */
+function choices(kind: DiffKind): [RowAction, string][] {
+  if (kind === "new") return [["merge", "Add"], ["skip", "Skip"]];
+  if (kind === "removed") return [["skip", "Keep"], ["replace", "Delete"]];
+  return [["merge", "Merge"], ["replace", "Replace"], ["skip", "Skip"]];
+}
+
+export function ImportPreview({
+  pending,
+  onChange,
+  onApply,
+  onCancel,
+}: {
+  pending: PendingImport;
+  onChange: (actions: Record<string, RowAction>) => void;
+  onApply: () => void;
+  onCancel: () => void;
+}) {
+  const counts = Object.fromEntries(KINDS.map((k) => [k, pending.entries.filter((d) => d.kind === k).length])) as Record<DiffKind, number>;
+  const rows = pending.entries.filter((d) => d.kind !== "unchanged");
+  const act = (id: string, kind: DiffKind) => pending.actions[id] || defaultAction(kind);
+  function setAll(action: RowAction) {
+    const next: Record<string, RowAction> = {};
+    for (const d of rows) next[d.id] = choices(d.kind).some(([a]) => a === action) ? action : act(d.id, d.kind);
+    onChange(next);
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle>Import preview · {pending.label}</CardTitle></CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-4 text-sm">
+          {KINDS.map((k) => <span key={k} className={TONES[k]}>{LABELS[k]}: {counts[k]}</span>)}
+        </div>
+        {pending.report.length > 0 && (
+          <pre className="text-xs whitespace-pre-wrap bg-gray-50 border rounded-md p-2">{pending.report.join("\n")}</pre>
+        )}
+        {rows.length > 0 && (
+          <div className="flex gap-2 text-sm items-center">
+            <span>Set all:</span>
+            <Button size="sm" variant="outline" onClick={() => setAll("merge")}>Merge / Add</Button>
+            <Button size="sm" variant="outline" onClick={() => setAll("replace")}>Replace / Delete</Button>
+            <Button size="sm" variant="outline" onClick={() => setAll("skip")}>Skip / Keep</Button>
+          </div>
+        )}
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <tbody>
+              {rows.map((d) => {
+                const e = d.incoming || d.existing!;
+                return (
+                  <tr key={d.id} className="border-t">
+                    <td className={`py-1 pr-2 whitespace-nowrap ${TONES[d.kind]}`}>{LABELS[d.kind]}</td>
+                    <td className="py-1 pr-2 whitespace-nowrap">{fmtSpan(e)}</td>
+                    <td className="py-1 pr-2">{e.name}</td>
+                    <td className="py-1 pr-2 text-xs text-gray-500">{d.changed.join(", ")}</td>
+                    <td className="py-1 pr-2 text-right">
+                      <Select value={act(d.id, d.kind)} onValueChange={(v) => onChange({ ...pending.actions, [d.id]: v as RowAction })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {choices(d.kind).map(([a, label]) => <SelectItem key={a} value={a}>{label}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                  </tr>
+                );
+              })}
+              {rows.length === 0 && (
+                <tr><td className="py-4 text-center text-gray-500">Nothing to change — all {counts.unchanged} events are already up to date.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={onApply} disabled={rows.length === 0}>Apply import</Button>
+          <Button variant="secondary" onClick={onCancel}>Cancel</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
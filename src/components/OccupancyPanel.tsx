@@ -0,0 +1,105 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { Room } from "@/lib/events";
+import type { Occupancy } from "@/lib/occupancy";
+
+const DAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const hrs = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 1 });
+const euro = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function OccupancyPanel({
+  data,
+  revenue,
+  from,
+  to,
+}: {
+  data: Occupancy;
+  /** Rental revenue per room over the same range (multi-room events split like Per Room). */
+  revenue: Record<Room, number>;
+  from: string;
+  to: string;
+}) {
+  const max = Math.max(0, ...data.heat.flat());
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle>Occupancy · {from} – {to}</CardTitle></CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left">
+              <tr>
+                <th className="py-1 pr-2">Room</th>
+                <th className="py-1 pr-2 text-right">Open days</th>
+                <th className="py-1 pr-2 text-right">Available h</th>
+                <th className="py-1 pr-2 text-right">Booked h</th>
+                <th className="py-1 pr-2">Occupancy</th>
+                <th className="py-1 pr-2 text-right">Idle days</th>
+                <th className="py-1 pr-2 text-right" title="Booked outside opening hours">Outside h</th>
+                <th className="py-1 pr-2 text-right">€ / available h</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.rooms.map((r) => (
+                <tr key={r.room} className="border-t">
+                  <td className="py-1 pr-2 font-medium">{r.room}</td>
+                  <td className="py-1 pr-2 text-right">{r.openDays}</td>
+                  <td className="py-1 pr-2 text-right">{hrs(r.available)}</td>
+                  <td className="py-1 pr-2 text-right">{hrs(r.booked)}</td>
+                  <td className="py-1 pr-2 min-w-[10rem]">
+                    <div className="flex items-center gap-2">
+                      <div className="h-2 flex-1 bg-gray-100 rounded">
+                        <div className="h-2 bg-blue-500 rounded" style={{ width: `${Math.min(100, r.occupancy * 100)}%` }} />
+                      </div>
+                      <span className="w-12 text-right">{Math.round(r.occupancy * 100)}%</span>
+                    </div>
+                  </td>
+                  <td className="py-1 pr-2 text-right">{r.idleDays}</td>
+                  <td className="py-1 pr-2 text-right">{hrs(r.outside)}</td>
+                  <td className="py-1 pr-2 text-right">{r.available ? `€ ${euro((revenue[r.room] || 0) / r.available)}` : "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className="lg:col-span-3 overflow-x-auto">
+            <div className="text-sm font-medium mb-1">Booked hours by weekday and time</div>
+            <table className="text-[10px] border-collapse">
+              <thead>
+                <tr>
+                  <th />
+                  {Array.from({ length: 24 }, (_, h) => <th key={h} className="w-6 font-normal">{h}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {data.heat.map((row, d) => (
+                  <tr key={d}>
+                    <td className="pr-1 font-medium">{DAYS[d]}</td>
+                    {row.map((v, h) => (
+                      <td
+                        key={h}
+                        className="w-6 h-5 border border-white"
+                        style={{ background: v ? `rgba(37, 99, 235, ${0.1 + 0.9 * (v / max)})` : "#f3f4f6" }}
+                        title={`${DAYS[d]} ${h}:00–${h + 1}:00 · ${hrs(v)} h booked`}
+                      />
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div>
+            <div className="text-sm font-medium mb-1">Peak days</div>
+            {data.peaks.length === 0 && <p className="text-xs text-muted-foreground">No bookings in this range.</p>}
+            {data.peaks.map((p) => (
+              <div key={p.date} className="text-sm flex justify-between">
+                <span>{p.date}</span>
+                <span>{hrs(p.hours)} h</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
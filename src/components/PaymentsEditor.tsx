@@ -0,0 +1,83 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  PAYMENT_KINDS,
+  PAYMENT_METHODS,
+  emptyLedger,
+  newPayment,
+  type Ledger,
+  type Payment,
+  type PaymentKind,
+  type PaymentMethod,
+  type PaymentState,
+} from "@/lib/payments";
+
+const num = (v: string) => (v === "" || isNaN(+v) ? 0 : Math.max(0, +v));
+const euro = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const STATE_TONES: Record<PaymentState, string> = {
+  unpaid: "text-gray-600",
+  partial: "text-amber-700",
+  paid: "text-green-700",
+  overdue: "text-red-600",
+};
+
+/** Coloured payment state; `label` overrides the text (e.g. "retained" on canceled events). */
+export function PaymentBadge({ state, label, title }: { state: PaymentState; label?: string; title?: string }) {
+  return <span className={`text-xs ${STATE_TONES[state]}`} title={title}>{label ?? state}</span>;
+}
+
+/** Deposit terms and the list of payments/refunds of the event being edited. */
+export function PaymentsEditor({
+  ledger,
+  total,
+  status,
+  onChange,
+}: {
+  ledger?: Ledger;
+  total: number;
+  status: { received: number; balance: number; state: PaymentState };
+  onChange: (l: Ledger) => void;
+}) {
+  const l = ledger || emptyLedger();
+  const set = (p: Partial<Ledger>) => onChange({ ...l, ...p });
+  const setPayment = (id: string, p: Partial<Payment>) => set({ payments: l.payments.map((x) => (x.id === id ? { ...x, ...p } : x)) });
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium flex flex-wrap items-center gap-3">
+        <span>Payments</span>
+        <PaymentBadge state={status.state} />
+        <span className="text-xs font-normal">Total € {euro(total)} · received € {euro(status.received)} · balance € {euro(status.balance)}</span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <div><label className="text-xs">Deposit due €</label><Input type="number" step="0.01" min={0} value={l.depositDue} onChange={(e) => set({ depositDue: num(e.target.value) })} /></div>
+        <div><label className="text-xs">Deposit due by</label><Input type="date" value={l.depositDueDate} onChange={(e) => set({ depositDueDate: e.target.value })} /></div>
+        <div><label className="text-xs">Balance due by (default: event date)</label><Input type="date" value={l.balanceDueDate} onChange={(e) => set({ balanceDueDate: e.target.value })} /></div>
+      </div>
+      {l.payments.map((p) => (
+        <div key={p.id} className="grid grid-cols-2 md:grid-cols-6 gap-2">
+          <Input type="date" value={p.date} onChange={(e) => setPayment(p.id, { date: e.target.value })} />
+          <Select value={p.kind} onValueChange={(v) => setPayment(p.id, { kind: v as PaymentKind })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>{PAYMENT_KINDS.map((k) => <SelectItem key={k} value={k}>{k}</SelectItem>)}</SelectContent>
+          </Select>
+          <Input type="number" step="0.01" min={0} value={p.amount} onChange={(e) => setPayment(p.id, { amount: num(e.target.value) })} />
+          <Select value={p.method} onValueChange={(v) => setPayment(p.id, { method: v as PaymentMethod })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>{PAYMENT_METHODS.map((m) => <SelectItem key={m} value={m}>{m}</SelectItem>)}</SelectContent>
+          </Select>
+          <Input placeholder="Note" value={p.note || ""} onChange={(e) => setPayment(p.id, { note: e.target.value })} />
+          <Button size="sm" variant="destructive" onClick={() => set({ payments: l.payments.filter((x) => x.id !== p.id) })}><Trash2 className="h-4 w-4" /></Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={() => set({ payments: [...l.payments, { ...newPayment("deposit"), amount: l.depositDue }] })}><Plus className="h-4 w-4 mr-1" />Deposit</Button>
+        <Button size="sm" variant="outline" onClick={() => set({ payments: [...l.payments, { ...newPayment(), amount: status.balance }] })}><Plus className="h-4 w-4 mr-1" />Payment</Button>
+        <Button size="sm" variant="outline" onClick={() => set({ payments: [...l.payments, newPayment("refund")] })}><Plus className="h-4 w-4 mr-1" />Refund</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+import type { PricingRules, Season } from "@/lib/pricing";
+
+const num = (v: string) => (v === "" || isNaN(+v) ? 0 : Math.max(0, +v));
+const DAYS: [number, string][] = [[1, "Mon"], [2, "Tue"], [3, "Wed"], [4, "Thu"], [5, "Fri"], [6, "Sat"], [0, "Sun"]];
+
+export function PricingSettings({
+  rules,
+  onChange,
+  repriceCount,
+  onReprice,
+}: {
+  rules: PricingRules;
+  onChange: (r: PricingRules) => void;
+  /** Events in the current filtered view that `onReprice` would touch. */
+  repriceCount: number;
+  onReprice: () => void;
+}) {
+  const set = (p: Partial<PricingRules>) => onChange({ ...rules, ...p });
+  const setVat = (key: keyof PricingRules["vat"], v: string) => set({ vat: { ...rules.vat, [key]: num(v) } });
+  const setSeason = (i: number, p: Partial<Season>) => set({ seasons: rules.seasons.map((s, j) => (j === i ? { ...s, ...p } : s)) });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle>Pricing</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+          <div><label className="text-xs">Weekend multiplier</label><Input type="number" step="0.05" min={0} value={rules.weekendMultiplier} onChange={(e) => set({ weekendMultiplier: num(e.target.value) })} /></div>
+          <div><label className="text-xs">Minimum hours</label><Input type="number" step="0.5" min={0} value={rules.minHours} onChange={(e) => set({ minHours: num(e.target.value) })} /></div>
+          <div><label className="text-xs">VAT rental %</label><Input type="number" step="0.1" min={0} value={rules.vat.rental} onChange={(e) => setVat("rental", e.target.value)} /></div>
+          <div><label className="text-xs">VAT food %</label><Input type="number" step="0.1" min={0} value={rules.vat.food} onChange={(e) => setVat("food", e.target.value)} /></div>
+          <div><label className="text-xs">VAT drinks %</label><Input type="number" step="0.1" min={0} value={rules.vat.drinks} onChange={(e) => setVat("drinks", e.target.value)} /></div>
+          <label className="inline-flex items-center gap-2 text-sm self-end pb-2">
+            <input type="checkbox" checked={rules.pricesIncludeVat} onChange={(e) => set({ pricesIncludeVat: e.target.checked })} />
+            Prices include VAT
+          </label>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <span className="text-xs">Weekend days:</span>
+          {DAYS.map(([d, label]) => (
+            <label key={d} className="inline-flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={rules.weekendDays.includes(d)}
+                onChange={(e) => set({ weekendDays: e.target.checked ? [...rules.weekendDays, d] : rules.weekendDays.filter((x) => x !== d) })}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium flex items-center justify-between">
+            <span>Seasons (from/to as MM-dd, may run over new year)</span>
+            <Button size="sm" variant="outline" onClick={() => set({ seasons: [...rules.seasons, { name: `Season ${rules.seasons.length + 1}`, from: "06-01", to: "08-31", multiplier: 1 }] })}>
+              <Plus className="h-4 w-4 mr-1" />Add season
+            </Button>
+          </div>
+          {rules.seasons.map((s, i) => (
+            <div key={i} className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              <Input value={s.name} onChange={(e) => setSeason(i, { name: e.target.value })} />
+              <Input placeholder="MM-dd" value={s.from} onChange={(e) => setSeason(i, { from: e.target.value })} />
+              <Input placeholder="MM-dd" value={s.to} onChange={(e) => setSeason(i, { to: e.target.value })} />
+              <Input type="number" step="0.05" min={0} value={s.multiplier} onChange={(e) => setSeason(i, { multiplier: num(e.target.value) })} />
+              <Button size="sm" variant="destructive" onClick={() => set({ seasons: rules.seasons.filter((_, j) => j !== i) })}><Trash2 className="h-4 w-4" /></Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3 text-sm">
+          <Button variant="outline" onClick={onReprice} disabled={!repriceCount}>Recalculate prices ({repriceCount})</Button>
+          <span className="text-xs text-muted-foreground">Events keep the price they were saved with until recalculated. This reprices every event in the current filtered view.</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
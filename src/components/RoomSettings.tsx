@@ -0,0 +1,188 @@
+import { Fragment, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+import type { Room } from "@/lib/events";
+import { activeRooms, formatDays, newRoom, parseDays, type Catalog, type RoomSpec, type WeekHours } from "@/lib/rooms";
+
+const num = (v: string) => (v === "" || isNaN(+v) ? 0 : Math.max(0, +v));
+
+/** Name field that only commits (and so re-points events) on blur or Enter. */
+function NameInput({ value, onCommit }: { value: string; onCommit: (v: string) => void }) {
+  const [draft, setDraft] = useState(value);
+  const [prev, setPrev] = useState(value);
+  if (prev !== value) { setPrev(value); setDraft(value); }
+  const commit = () => { if (draft.trim() !== value) onCommit(draft.trim()); };
+  return (
+    <Input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === "Enter") commit(); if (e.key === "Escape") setDraft(value); }}
+    />
+  );
+}
+
+/** List of yyyy-MM-dd days, edited as text and parsed on blur. */
+function DaysInput({ value, onCommit, placeholder }: { value: string[]; onCommit: (v: string[]) => void; placeholder?: string }) {
+  const [draft, setDraft] = useState(formatDays(value));
+  const [prev, setPrev] = useState(value);
+  if (prev !== value) { setPrev(value); setDraft(formatDays(value)); }
+  return <Input placeholder={placeholder} value={draft} onChange={(e) => setDraft(e.target.value)} onBlur={() => onCommit(parseDays(draft))} />;
+}
+
+const WEEK: [number, string][] = [[1, "Mon"], [2, "Tue"], [3, "Wed"], [4, "Thu"], [5, "Fri"], [6, "Sat"], [0, "Sun"]];
+
+function HoursEditor({ hours, onChange }: { hours: WeekHours; onChange: (h: WeekHours) => void }) {
+  const set = (d: number, h: WeekHours[number]) => onChange(hours.map((x, i) => (i === d ? h : x)));
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+      {WEEK.map(([d, label]) => {
+        const h = hours[d];
+        return (
+          <div key={d} className="space-y-1">
+            <label className="inline-flex items-center gap-1 text-xs">
+              <input type="checkbox" checked={!!h} onChange={(e) => set(d, e.target.checked ? { from: "08:00", to: "24:00" } : null)} />
+              {label}
+            </label>
+            {h && (
+              <div className="flex gap-1">
+                <Input type="time" value={h.from} onChange={(e) => set(d, { ...h, from: e.target.value })} />
+                <Input placeholder="24:00" value={h.to} onChange={(e) => set(d, { ...h, to: e.target.value })} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function RoomSettings({
+  catalog,
+  onChange,
+  onRename,
+}: {
+  catalog: Catalog;
+  onChange: (c: Catalog) => void;
+  /** Returns an error message when the rename is not possible. */
+  onRename: (from: Room, to: Room) => string | null;
+}) {
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState("");
+  const [hoursOf, setHoursOf] = useState<Room | null>(null);
+
+  const patch = (name: Room, p: Partial<RoomSpec>) =>
+    onChange({ ...catalog, rooms: catalog.rooms.map((r) => (r.name === name ? { ...r, ...p } : r)) });
+
+  function addRoom() {
+    const name = newName.trim();
+    if (!name) return;
+    if (catalog.rooms.some((r) => r.name.toLowerCase() === name.toLowerCase())) {
+      setError(`A room called "${name}" already exists.`);
+      return;
+    }
+    onChange({ ...catalog, rooms: [...catalog.rooms, newRoom(name)] });
+    setNewName("");
+    setError("");
+  }
+  function rename(from: Room, to: Room) {
+    setError(onRename(from, to) || "");
+  }
+
+  const combos = catalog.combos;
+  const setCombos = (next: Catalog["combos"]) => onChange({ ...catalog, combos: next });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle>Rooms</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left">
+              <tr>
+                <th className="py-1 pr-2">Name</th>
+                <th className="py-1 pr-2">Seated</th>
+                <th className="py-1 pr-2">Standing</th>
+                <th className="py-1 pr-2">Hourly €</th>
+                <th className="py-1 pr-2">Day €</th>
+                <th className="py-1 pr-2">Setup min</th>
+                <th className="py-1 pr-2">Teardown min</th>
+                <th className="py-1 pr-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {catalog.rooms.map((r) => (
+                <Fragment key={r.name}>
+                  <tr className={`border-t ${r.archived ? "text-gray-400" : ""}`}>
+                    <td className="py-1 pr-2 min-w-[10rem]"><NameInput value={r.name} onCommit={(to) => rename(r.name, to)} /></td>
+                    <td className="py-1 pr-2"><Input type="number" min={0} value={r.seated} onChange={(e) => patch(r.name, { seated: num(e.target.value) })} /></td>
+                    <td className="py-1 pr-2"><Input type="number" min={0} value={r.standing} onChange={(e) => patch(r.name, { standing: num(e.target.value) })} /></td>
+                    <td className="py-1 pr-2"><Input type="number" min={0} step="0.01" value={r.hourly} onChange={(e) => patch(r.name, { hourly: num(e.target.value) })} /></td>
+                    <td className="py-1 pr-2"><Input type="number" min={0} step="0.01" value={r.day} onChange={(e) => patch(r.name, { day: num(e.target.value) })} /></td>
+                    <td className="py-1 pr-2"><Input type="number" min={0} value={r.setup} onChange={(e) => patch(r.name, { setup: num(e.target.value) })} /></td>
+                    <td className="py-1 pr-2"><Input type="number" min={0} value={r.teardown} onChange={(e) => patch(r.name, { teardown: num(e.target.value) })} /></td>
+                    <td className="py-1 pr-2 text-right whitespace-nowrap">
+                      <Button size="sm" variant="ghost" onClick={() => setHoursOf(hoursOf === r.name ? null : r.name)}>Hours</Button>
+                      <Button size="sm" variant="ghost" onClick={() => patch(r.name, { archived: !r.archived })}>{r.archived ? "Restore" : "Archive"}</Button>
+                    </td>
+                  </tr>
+                  {hoursOf === r.name && (
+                    <tr>
+                      <td colSpan={8} className="py-2 space-y-2">
+                        <HoursEditor hours={r.hours} onChange={(hours) => patch(r.name, { hours })} />
+                        <DaysInput placeholder="Days this room is closed, e.g. 2025-08-01, 2025-08-02" value={r.closed} onCommit={(closed) => patch(r.name, { closed })} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex gap-2 items-center">
+          <Input placeholder="New room name" value={newName} onChange={(e) => setNewName(e.target.value)} onKeyDown={(e) => e.key === "Enter" && addRoom()} />
+          <Button variant="outline" onClick={addRoom}><Plus className="h-4 w-4 mr-1" />Add room</Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div>
+          <label className="text-sm font-medium">Holidays (whole venue closed)</label>
+          <DaysInput placeholder="2025-12-24, 2025-12-25, 2026-01-01" value={catalog.holidays} onCommit={(holidays) => onChange({ ...catalog, holidays })} />
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium flex items-center justify-between">
+            <span>Combinations</span>
+            <Button size="sm" variant="outline" onClick={() => setCombos([...combos, { name: `Combination ${combos.length + 1}`, rooms: [] }])}>
+              <Plus className="h-4 w-4 mr-1" />Add combination
+            </Button>
+          </div>
+          {combos.map((k, i) => (
+            <div key={i} className="border rounded-lg p-2 space-y-2">
+              <div className="flex gap-2">
+                <Input value={k.name} onChange={(e) => setCombos(combos.map((x, j) => (j === i ? { ...x, name: e.target.value } : x)))} />
+                <Button size="sm" variant="destructive" onClick={() => setCombos(combos.filter((_, j) => j !== i))}><Trash2 className="h-4 w-4" /></Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {activeRooms(catalog).map((r) => (
+                  <label key={r.name} className="inline-flex items-center gap-1 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={k.rooms.includes(r.name)}
+                      onChange={(e) =>
+                        setCombos(combos.map((x, j) =>
+                          j !== i ? x : { ...x, rooms: e.target.checked ? [...x.rooms, r.name] : x.rooms.filter((n) => n !== r.name) }))
+                      }
+                    />
+                    {r.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import { describeSeries, newSeries, type Frequency, type Series } from "@/lib/series";
+
+const WEEK: [number, string][] = [[1, "Mon"], [2, "Tue"], [3, "Wed"], [4, "Thu"], [5, "Fri"], [6, "Sat"], [0, "Sun"]];
+const UNITS: Record<Frequency, string> = { daily: "days", weekly: "weeks", monthly: "months" };
+
+/** Recurrence of the event being edited; no series means a one-off event. */
+export function SeriesEditor({
+  series,
+  date,
+  onChange,
+}: {
+  series?: Series;
+  /** First date of the series; weekly series start out on its weekday. */
+  date: string;
+  onChange: (series?: Series) => void;
+}) {
+  const set = (p: Partial<Series>) => onChange({ ...series!, ...p });
+  const ends = series?.count ? "count" : series?.until ? "until" : "never";
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center text-sm">
+        <span className="font-medium">Repeats</span>
+        <Select
+          value={series?.freq || ""}
+          onValueChange={(v) => onChange(v ? { ...(series || newSeries(date)), freq: v as Frequency } : undefined)}
+        >
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="">Does not repeat</SelectItem>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly">Monthly (same day)</SelectItem>
+          </SelectContent>
+        </Select>
+        {series && (
+          <>
+            <div className="flex items-center gap-1">
+              <span className="text-xs">every</span>
+              <Input type="number" min={1} value={series.interval} onChange={(e) => set({ interval: Math.max(1, Math.round(+e.target.value) || 1) })} />
+              <span className="text-xs">{UNITS[series.freq]}</span>
+            </div>
+            <Select
+              value={ends}
+              onValueChange={(v) => set({ until: v === "until" ? series.until || date : undefined, count: v === "count" ? series.count || 10 : undefined })}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">No end</SelectItem>
+                <SelectItem value="until">Until</SelectItem>
+                <SelectItem value="count">Number of times</SelectItem>
+              </SelectContent>
+            </Select>
+            {ends === "until" && <Input type="date" min={date} value={series.until} onChange={(e) => set({ until: e.target.value || undefined })} />}
+            {ends === "count" && <Input type="number" min={1} value={series.count} onChange={(e) => set({ count: Math.max(1, Math.round(+e.target.value) || 1) })} />}
+          </>
+        )}
+      </div>
+      {series?.freq === "weekly" && (
+        <div className="flex flex-wrap gap-3 items-center">
+          <span className="text-xs">On:</span>
+          {WEEK.map(([d, label]) => (
+            <label key={d} className="inline-flex items-center gap-1 text-xs">
+              <input
+                type="checkbox"
+                checked={(series.weekdays || []).includes(d)}
+                onChange={(e) => set({ weekdays: e.target.checked ? [...(series.weekdays || []), d] : (series.weekdays || []).filter((x) => x !== d) })}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      )}
+      {series && (
+        <p className="text-xs text-muted-foreground">
+          {describeSeries(series)}
+          {!!series.skip?.length && ` · ${series.skip.length} skipped`}
+          {!!series.overrides && ` · ${Object.keys(series.overrides).length} changed`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { RefreshCw } from "lucide-react";
+
+export function SyncSettings({
+  url,
+  token,
+  pending,
+  lastSync,
+  error,
+  busy,
+  onConnect,
+  onDisconnect,
+  onSyncNow,
+}: {
+  url: string;
+  token: string;
+  /** Local changes the server has not accepted yet. */
+  pending: number;
+  lastSync: string;
+  error: string;
+  busy: boolean;
+  onConnect: (url: string, token: string) => void;
+  onDisconnect: () => void;
+  onSyncNow: () => void;
+}) {
+  const [draftUrl, setDraftUrl] = useState(url || "http://localhost:8787");
+  const [draftToken, setDraftToken] = useState(token);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2"><CardTitle>Server Sync</CardTitle></CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <Input className="md:col-span-2" placeholder="Server URL" value={draftUrl} disabled={!!url} onChange={(e) => setDraftUrl(e.target.value)} />
+          <Input type="password" placeholder="Token (optional)" value={draftToken} disabled={!!url} onChange={(e) => setDraftToken(e.target.value)} />
+          {url ? (
+            <Button variant="secondary" onClick={onDisconnect}>Disconnect</Button>
+          ) : (
+            <Button disabled={!/^https?:\/\//.test(draftUrl.trim())} onClick={() => onConnect(draftUrl.trim(), draftToken.trim())}>Connect</Button>
+          )}
+        </div>
+        {url && (
+          <div className="flex flex-wrap items-center gap-3">
+            <Button size="sm" variant="outline" disabled={busy} onClick={onSyncNow}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${busy ? "animate-spin" : ""}`} />Sync now
+            </Button>
+            <span>{pending ? `${pending} change${pending === 1 ? "" : "s"} waiting to be pushed` : "Nothing waiting to be pushed"}</span>
+            {lastSync && <span className="text-muted-foreground">Last synced {format(new Date(lastSync), "yyyy-MM-dd HH:mm")}</span>}
+            {error && <span className="text-red-600">Offline: {error}. Changes stay queued and are pushed once the server is reachable.</span>}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Start the server with <code>npm run sync-server</code>; it only accepts this machine unless started with <code>HOST</code> and <code>SYNC_TOKEN</code> set. Connecting uploads every local event, so laptops that already hold data merge into one
+          shared list; events edited on two machines at once are shown as conflicts.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
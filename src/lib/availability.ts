@@ -0,0 +1,106 @@
+import { inferEndDate, nextDay, overlapsRange, parseTime, type EventRow, type Room } from "./events";
+import { findConflicts, isActive, type RoomBuffers } from "./conflicts";
+import { openingOn } from "./occupancy";
+import { capacityOf, type Catalog } from "./rooms";
+import { expandSeries } from "./series";
+
+/** -------------------- Availability search -------------------- */
+export type SlotQuery = {
+  from: string;        // yyyy-MM-dd, inclusive
+  to: string;
+  weekdays: number[];  // Date.getDay() values; empty = any day
+  earliest: string;    // HH:mm the event may start at the earliest
+  latest: string;      // HH:mm it must be over by ("24:00" = midnight)
+  hours: number;       // duration
+  guests: number;
+  seating: "seated" | "standing";
+  /** Only room sets using at least one of these; empty = any room. */
+  rooms: Room[];
+};
+
+export type Slot = {
+  date: string;
+  endDate: string;
+  start: string;
+  end: string;
+  rooms: Room[];
+  combo?: string;      // catalog combination the rooms come from
+  capacity: number;    // 0 = unknown
+  /** Latest start that still fits, for "any time from 18:00 to 20:00". */
+  lastStart: string;
+};
+
+/** Start times are tried on this grid (minutes). */
+const STEP = 30;
+/** Searches stop after this many slots. */
+export const MAX_SLOTS = 100;
+
+const toMin = (t: string) => {
+  const [h, m] = t.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+const hhmm = (min: number) => `${String(Math.floor(min / 60) % 24).padStart(2, "0")}:${String(min % 60).padStart(2, "0")}`;
+
+/**
+ * Room sets worth offering: every active room and every combination of active rooms, restricted to
+ * the preferred rooms. Sets that hold the guests come first, smallest fit first; sets of unknown
+ * capacity follow, since the catalog may simply not know it.
+ */
+function candidates(c: Catalog, q: SlotQuery) {
+  const active = new Set(c.rooms.filter((r) => !r.archived).map((r) => r.name));
+  const sets: { rooms: Room[]; combo?: string }[] = [
+    ...[...active].map((r) => ({ rooms: [r] })),
+    ...c.combos.filter((k) => k.rooms.length && k.rooms.every((r) => active.has(r))).map((k) => ({ rooms: k.rooms, combo: k.name })),
+  ];
+  return sets
+    .filter((s) => !q.rooms.length || s.rooms.some((r) => q.rooms.includes(r)))
+    .map((s) => ({ ...s, capacity: capacityOf(c, s.rooms)[q.seating] }))
+    .filter((s) => !q.guests || !s.capacity || s.capacity >= q.guests)
+    .sort((a, b) => (a.capacity ? 0 : 1) - (b.capacity ? 0 : 1) || a.capacity - b.capacity || a.rooms.length - b.rooms.length);
+}
+
+/**
+ * Free slots for the query, day by day: for each day and room set, the earliest start on a 30-minute
+ * grid where all rooms are open and no active booking (with its setup/teardown time) is in the way.
+ */
+export function findSlots(events: EventRow[], c: Catalog, buffers: RoomBuffers, q: SlotQuery): Slot[] {
+  const out: Slot[] = [];
+  const length = Math.round(q.hours * 60);
+  if (!q.from || !q.to || q.from > q.to || length <= 0) return out;
+  const sets = candidates(c, q);
+  // only bookings near the range can get in the way, occurrences of series included
+  const nearby = expandSeries(events, q.from, nextDay(q.to)).filter((e) => isActive(e) && overlapsRange(e, q.from, nextDay(q.to)));
+  for (let day = q.from; day <= q.to && out.length < MAX_SLOTS; day = nextDay(day)) {
+    if (q.weekdays.length && !q.weekdays.includes(parseTime(day, "00:00").getDay())) continue;
+    const today = nearby.filter((e) => overlapsRange(e, day, nextDay(day)));
+    for (const set of sets) {
+      // the window where every room of the set is open and the caller wants the event
+      let open = toMin(q.earliest), close = toMin(q.latest) || 24 * 60;
+      for (const r of set.rooms) {
+        const h = openingOn(c, r, day);
+        if (!h) { close = -1; break; }
+        open = Math.max(open, h.from);
+        close = Math.min(close, h.to);
+      }
+      const fits: number[] = [];
+      for (let s = Math.ceil(open / STEP) * STEP; s + length <= close; s += STEP) {
+        const probe = slotRow(day, s, length, set.rooms);
+        if (!findConflicts(probe, today, buffers).length) fits.push(s);
+      }
+      if (!fits.length) continue;
+      const first = slotRow(day, fits[0], length, set.rooms);
+      out.push({ date: day, endDate: first.endDate, start: first.start, end: first.end, rooms: set.rooms, combo: set.combo, capacity: set.capacity, lastStart: hhmm(fits[fits.length - 1]) });
+      if (out.length >= MAX_SLOTS) break;
+    }
+  }
+  return out;
+}
+
+/** A throwaway "On hold" row for the slot, as the conflict check and the add-event form expect it. */
+function slotRow(date: string, start: number, length: number, rooms: Room[]): EventRow {
+  const s = hhmm(start), e = hhmm(start + length);
+  return {
+    name: "", date, endDate: inferEndDate(date, s, e), start: s, end: e, rooms,
+    status: "On hold", guests: 0, rate: 0, day: 0, fee: 0, food: 0, drinks: 0,
+  };
+}
@@ -0,0 +1,53 @@
+import type { EventRow } from "./events";
+
+/** -------------------- Cancellation policy -------------------- */
+/** Canceled at least `days` before the event day → `fee` % of the rental is charged. */
+export type CancelTier = { days: number; fee: number };
+export type CancelPolicy = { tiers: CancelTier[]; reasons: string[] };
+
+export const DEFAULT_POLICY: CancelPolicy = {
+  tiers: [
+    { days: 60, fee: 0 },
+    { days: 30, fee: 50 },
+    { days: 0, fee: 100 },
+  ],
+  reasons: ["Client request", "Date change", "Budget", "Low attendance", "Illness", "Weather", "Venue issue", "No-show", "Other"],
+};
+
+const dayNo = (d: string) => Date.UTC(+d.slice(0, 4), +d.slice(5, 7) - 1, +d.slice(8, 10)) / 86_400_000;
+
+/** Days between the cancellation and the event day, or null when no cancellation date is recorded. */
+export function noticeDays(e: EventRow) {
+  if (!e.canceledOn || !e.date) return null;
+  return Math.round(dayNo(e.date) - dayNo(e.canceledOn));
+}
+
+/** Tiers sorted by notice, longest first; the first one the notice reaches applies. */
+export function tierFor(policy: CancelPolicy, days: number) {
+  const tiers = [...policy.tiers].sort((a, b) => b.days - a.days);
+  return tiers.find((t) => days >= t.days) ?? tiers[tiers.length - 1];
+}
+
+/**
+ * Fee earned on a canceled event under `policy`. Without a cancellation date (events canceled before
+ * dates were recorded) no fee is assumed, so the whole rental stays lost as it always was.
+ */
+export function cancellationFee(e: EventRow, rental: number, policy: CancelPolicy) {
+  const days = e.status === "Canceled" ? noticeDays(e) : null;
+  const tier = days === null ? undefined : tierFor(policy, days);
+  return { days, tier, fee: tier ? (rental * tier.fee) / 100 : 0 };
+}
+
+/** Fills in missing parts of a stored policy; null when there is nothing usable. */
+export function normalizePolicy(raw: unknown): CancelPolicy | null {
+  if (!raw || typeof raw !== "object") return null;
+  const p = raw as Partial<CancelPolicy>;
+  const tiers = (Array.isArray(p.tiers) ? p.tiers : [])
+    .filter((t) => t && isFinite(t.days) && isFinite(t.fee))
+    .map((t) => ({ days: Math.max(0, Math.round(t.days)), fee: Math.min(100, Math.max(0, t.fee)) }));
+  const reasons = (Array.isArray(p.reasons) ? p.reasons : []).filter((r) => typeof r === "string" && r.trim());
+  return {
+    tiers: tiers.length ? tiers : DEFAULT_POLICY.tiers,
+    reasons: reasons.length ? reasons : DEFAULT_POLICY.reasons,
+  };
+}
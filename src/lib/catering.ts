@@ -0,0 +1,158 @@
+import { durationHrs, type EventRow } from "./events";
+
+/** -------------------- Catering catalog -------------------- */
+export const CATERING_GROUPS = ["Menu", "Drinks package", "Add-on"] as const;
+export type CateringGroup = (typeof CATERING_GROUPS)[number];
+
+/** Which of the event's totals an item adds to. */
+export type CateringKind = "food" | "drinks";
+
+/** "guest": × the event's guests, "hour": × its duration, "unit": × a quantity typed on the line. */
+export const CATERING_UNITS = ["guest", "hour", "unit"] as const;
+export type CateringUnit = (typeof CATERING_UNITS)[number];
+
+export type CateringItem = {
+  id: string;
+  name: string;
+  group: CateringGroup;
+  kind: CateringKind;
+  unit: CateringUnit;
+  price: number;  // € per unit, VAT as in the pricing rules
+  cost?: number;  // € per unit paid to the kitchen/supplier; unknown when unset
+  archived?: boolean;
+};
+
+export const newCateringItem = (group: CateringGroup = "Menu"): CateringItem => ({
+  id: crypto.randomUUID(), name: "", group, kind: group === "Drinks package" ? "drinks" : "food", unit: "guest", price: 0,
+});
+
+export const DEFAULT_CATERING: CateringItem[] = [
+  { id: "menu-lunch", name: "Lunch buffet", group: "Menu", kind: "food", unit: "guest", price: 22, cost: 11 },
+  { id: "menu-dinner", name: "Three-course dinner", group: "Menu", kind: "food", unit: "guest", price: 45, cost: 21 },
+  { id: "drinks-basic", name: "Soft drinks & coffee", group: "Drinks package", kind: "drinks", unit: "guest", price: 6, cost: 2 },
+  { id: "drinks-bar", name: "Open bar", group: "Drinks package", kind: "drinks", unit: "guest", price: 18, cost: 7 },
+  { id: "addon-bartender", name: "Bartender", group: "Add-on", kind: "drinks", unit: "hour", price: 35, cost: 25 },
+  { id: "addon-cake", name: "Cake", group: "Add-on", kind: "food", unit: "unit", price: 60, cost: 25 },
+];
+
+/**
+ * One line on an event. Item lines copy name, unit and prices from the catalog when added, so later
+ * price changes don't rewrite past events; custom lines (no `itemId`) are a plain amount.
+ */
+export type CateringLine = {
+  id: string;
+  itemId?: string;
+  name: string;
+  kind: CateringKind;
+  unit: CateringUnit;
+  price: number;
+  cost?: number;
+  /** Units for "unit" lines; guests/hours lines follow the event unless set. */
+  qty?: number;
+};
+
+export const CUSTOM = "Custom";
+
+export function lineFor(item: CateringItem): CateringLine {
+  const line: CateringLine = { id: crypto.randomUUID(), itemId: item.id, name: item.name, kind: item.kind, unit: item.unit, price: item.price };
+  if (item.cost !== undefined) line.cost = item.cost;
+  if (item.unit === "unit") line.qty = 1;
+  return line;
+}
+
+export const customLine = (kind: CateringKind, amount: number): CateringLine =>
+  ({ id: crypto.randomUUID(), name: CUSTOM, kind, unit: "unit", price: amount, qty: 1 });
+
+/** The lines of an event; events with flat food/drinks amounts get one custom line per amount. */
+export function linesOf(e: EventRow): CateringLine[] {
+  if (e.catering) return e.catering;
+  // fixed ids, so the derived lines stay the same from one call to the next
+  const out: CateringLine[] = [];
+  if (e.food) out.push({ ...customLine("food", e.food), id: "custom-food" });
+  if (e.drinks) out.push({ ...customLine("drinks", e.drinks), id: "custom-drinks" });
+  return out;
+}
+
+/** How many units a line bills for this event. */
+export function quantityOf(line: CateringLine, e: EventRow) {
+  if (line.qty !== undefined) return line.qty;
+  if (line.unit === "guest") return e.guests || 0;
+  if (line.unit === "hour") return durationHrs(e);
+  return 1;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Food and drinks totals, and the cost of the lines that have a cost price. */
+export function cateringTotals(e: EventRow, lines = linesOf(e)) {
+  let food = 0, drinks = 0, cost = 0, costed = 0;
+  for (const l of lines) {
+    const qty = quantityOf(l, e);
+    const amount = qty * l.price;
+    if (l.kind === "food") food += amount;
+    else drinks += amount;
+    if (l.cost !== undefined) {
+      cost += qty * l.cost;
+      costed += amount;
+    }
+  }
+  // margin only over the lines whose cost is known, so a custom line doesn't count as pure profit
+  return { food: round2(food), drinks: round2(drinks), cost: round2(cost), margin: round2(costed - cost) };
+}
+
+/** `e` with food/drinks recomputed from its catering lines; rows without lines are returned as is. */
+export function withCatering(e: EventRow): EventRow {
+  if (!e.catering) return e;
+  const t = cateringTotals(e);
+  return t.food === e.food && t.drinks === e.drinks ? e : { ...e, food: t.food, drinks: t.drinks };
+}
+
+/** -------------------- Sales -------------------- */
+export type ItemSales = { name: string; kind: CateringKind; unit: CateringUnit; events: number; qty: number; revenue: number; cost: number; margin: number; costed: boolean };
+
+/**
+ * Sales per catalog item (custom lines together under "Custom"), biggest revenue first. Counts the
+ * same events as revenueFor, i.e. catering of every event passed in.
+ */
+export function itemSales(events: EventRow[], catalog: CateringItem[]) {
+  const names = new Map(catalog.map((i) => [i.id, i.name]));
+  const map = new Map<string, ItemSales>();
+  for (const e of events) {
+    for (const l of linesOf(e)) {
+      const key = l.itemId || `${CUSTOM}:${l.kind}`;
+      let s = map.get(key);
+      if (!s) {
+        // catalog renames show under the new name; deleted items keep the name on the line
+        s = { name: (l.itemId && (names.get(l.itemId) || l.name)) || `${CUSTOM} ${l.kind}`, kind: l.kind, unit: l.unit, events: 0, qty: 0, revenue: 0, cost: 0, margin: 0, costed: true };
+        map.set(key, s);
+      }
+      const qty = quantityOf(l, e);
+      s.events++;
+      s.qty += qty;
+      s.revenue += qty * l.price;
+      if (l.cost === undefined) s.costed = false;
+      else {
+        s.cost += qty * l.cost;
+        s.margin += qty * (l.price - l.cost);
+      }
+    }
+  }
+  return Array.from(map.values()).sort((a, b) => b.revenue - a.revenue);
+}
+
+export function normalizeCatering(raw: unknown): CateringItem[] | null {
+  if (!Array.isArray(raw)) return null;
+  const num = (v: unknown) => (typeof v === "number" && isFinite(v) && v >= 0 ? v : 0);
+  return raw
+    .filter((i) => i && typeof i === "object" && typeof i.id === "string" && i.id)
+    .map((i) => ({
+      id: i.id,
+      name: typeof i.name === "string" ? i.name : "",
+      group: CATERING_GROUPS.includes(i.group) ? i.group : "Menu",
+      kind: i.kind === "drinks" ? "drinks" : "food",
+      unit: CATERING_UNITS.includes(i.unit) ? i.unit : "unit",
+      price: num(i.price),
+      ...(typeof i.cost === "number" && i.cost >= 0 ? { cost: i.cost } : {}),
+      ...(i.archived ? { archived: true } : {}),
+    }));
+}
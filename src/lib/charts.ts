@@ -0,0 +1,63 @@
+import { STATUSES, monthShares, type EventRow, type Status } from "./events";
+
+/** -------------------- Chart series -------------------- */
+/** Money per event as the dashboard counts it, so the charts agree with the KPIs. */
+export type MoneyOf = {
+  revenue: (e: EventRow) => number;
+  lost: (e: EventRow) => number;
+  rental: (e: EventRow) => number; // rental part of revenue
+};
+
+export type MonthPoint = { month: string; revenue: number; lost: number; canceled: number } & Record<Status, number>;
+
+function nextMonth(m: string) {
+  const y = +m.slice(0, 4), mo = +m.slice(5, 7);
+  return mo === 12 ? `${y + 1}-01` : `${y}-${String(mo + 1).padStart(2, "0")}`;
+}
+
+/**
+ * One point per month from the first to the last event, gaps included. Counts go to the start month;
+ * money is split by the hours falling in each month, like the per-year breakdown.
+ */
+export function monthlySeries(events: EventRow[], money: MoneyOf): MonthPoint[] {
+  const map = new Map<string, MonthPoint>();
+  const point = (month: string) => {
+    let p = map.get(month);
+    if (!p) {
+      p = { month, revenue: 0, lost: 0, canceled: 0, ...(Object.fromEntries(STATUSES.map((s) => [s, 0])) as Record<Status, number>) };
+      map.set(month, p);
+    }
+    return p;
+  };
+  for (const e of events) {
+    if (!e.date) continue;
+    const p = point(e.date.slice(0, 7));
+    p[e.status]++;
+    if (e.status === "Canceled") p.canceled++;
+    const revenue = money.revenue(e), lost = money.lost(e);
+    for (const [month, share] of monthShares(e)) {
+      point(month).revenue += revenue * share;
+      point(month).lost += lost * share;
+    }
+  }
+  const keys = Array.from(map.keys()).sort();
+  if (!keys.length) return [];
+  const out: MonthPoint[] = [];
+  for (let m = keys[0]; m <= keys[keys.length - 1]; m = nextMonth(m)) out.push(point(m));
+  return out;
+}
+
+/** Revenue split into rental, food and drinks. */
+export function revenueMix(events: EventRow[], money: MoneyOf) {
+  let rental = 0, food = 0, drinks = 0;
+  for (const e of events) {
+    rental += money.rental(e);
+    food += e.food || 0;
+    drinks += e.drinks || 0;
+  }
+  return [
+    { name: "Rental", value: rental },
+    { name: "Food", value: food },
+    { name: "Drinks", value: drinks },
+  ];
+}
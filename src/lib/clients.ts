@@ -0,0 +1,109 @@
+import type { EventRow } from "./events";
+import type { CancelPolicy } from "./cancellation";
+import { lostFor, retainedFor, revenueFor } from "./reports";
+
+/** -------------------- Clients -------------------- */
+/** The organisation (or person) behind a booking; events point to it through `clientId`. */
+export type Client = {
+  id: string;
+  org: string;      // organisation, or the person's name for private bookings
+  contact: string;  // contact person
+  email: string;
+  phone: string;
+  address: string;  // billing address, may span lines
+  tags: string[];   // e.g. "corporate", "wedding planner"
+};
+
+export const newClient = (org = ""): Client => ({
+  id: crypto.randomUUID(), org, contact: "", email: "", phone: "", address: "", tags: [],
+});
+
+/** How a client is shown in pickers and tables. */
+export const clientLabel = (c: Client) => (c.contact && c.contact !== c.org ? `${c.org} (${c.contact})` : c.org) || "(unnamed)";
+
+/** "a, b,c" → ["a", "b", "c"], without blanks or repeats. */
+export const parseTags = (text: string) => Array.from(new Set(text.split(",").map((t) => t.trim()).filter(Boolean)));
+
+/** True when `q` (lower case) appears in any of the client's fields. */
+export function clientMatches(c: Client, q: string) {
+  return [c.org, c.contact, c.email, c.phone, ...c.tags].some((v) => v.toLowerCase().includes(q));
+}
+
+/**
+ * Another tab may have saved its list since this one last read (`base`): applies what this tab
+ * added, changed or deleted in `mine` onto the `stored` list and keeps everything else from there.
+ */
+export function mergeClients(base: Client[], mine: Client[], stored: Client[]) {
+  const before = new Map(base.map((c) => [c.id, JSON.stringify(c)]));
+  const kept = new Set(mine.map((c) => c.id));
+  const out = stored.filter((c) => kept.has(c.id) || !before.has(c.id));
+  const at = new Map(out.map((c, i) => [c.id, i]));
+  for (const c of mine) {
+    if (before.get(c.id) === JSON.stringify(c)) continue; // not touched in this tab
+    const i = at.get(c.id);
+    if (i === undefined) out.push(c);
+    else out[i] = c;
+  }
+  return out;
+}
+
+/** -------------------- Analytics -------------------- */
+export type ClientStats = {
+  events: number;
+  taken: number;
+  canceled: number;
+  revenue: number;
+  retained: number;
+  lost: number;
+  /** Canceled share of the events that were booked at all (Free slots don't count), 0..1. */
+  cancelRate: number;
+  first: string; // yyyy-MM-dd of the earliest event, "" when none
+  last: string;
+};
+
+/** Lifetime figures of one client's events. */
+export function clientStats(events: EventRow[], policy: CancelPolicy): ClientStats {
+  let taken = 0, canceled = 0, booked = 0, revenue = 0, retained = 0, lost = 0;
+  let first = "", last = "";
+  for (const e of events) {
+    if (e.status !== "Free") booked++;
+    if (e.status === "Taken") taken++;
+    if (e.status === "Canceled") canceled++;
+    revenue += revenueFor(e);
+    retained += retainedFor(e, policy);
+    lost += lostFor(e, policy);
+    if (!first || e.date < first) first = e.date;
+    if (e.date > last) last = e.date;
+  }
+  return { events: events.length, taken, canceled, revenue, retained, lost, cancelRate: booked ? canceled / booked : 0, first, last };
+}
+
+/** Every client's stats, best customers (most revenue, then most events) first. */
+export function clientRanking(clients: Client[], events: EventRow[], policy: CancelPolicy) {
+  const byClient = new Map<string, EventRow[]>();
+  for (const e of events) {
+    if (!e.clientId) continue;
+    const list = byClient.get(e.clientId);
+    if (list) list.push(e);
+    else byClient.set(e.clientId, [e]);
+  }
+  return clients
+    .map((client) => ({ client, stats: clientStats(byClient.get(client.id) || [], policy) }))
+    .sort((a, b) => b.stats.revenue - a.stats.revenue || b.stats.events - a.stats.events);
+}
+
+export function normalizeClients(raw: unknown): Client[] | null {
+  if (!Array.isArray(raw)) return null;
+  const s = (v: unknown) => (typeof v === "string" ? v : "");
+  return raw
+    .filter((c) => c && typeof c === "object" && typeof c.id === "string" && c.id)
+    .map((c) => ({
+      id: c.id,
+      org: s(c.org),
+      contact: s(c.contact),
+      email: s(c.email),
+      phone: s(c.phone),
+      address: s(c.address),
+      tags: Array.isArray(c.tags) ? c.tags.filter((t: unknown) => typeof t === "string" && t) : [],
+    }));
+}
@@ -0,0 +1,89 @@
+import { eventEnd, eventStart, fmtSpan, type EventRow, type Room, type Status } from "./events";
+
+/** -------------------- Room conflicts -------------------- */
+/** Statuses that occupy a room. "Canceled" and "Free" never block anything. */
+export const ACTIVE_STATUSES: Status[] = ["Taken", "Booked", "On hold"];
+
+/** Setup/teardown time in minutes kept free around each booking of a room. */
+export type RoomBuffer = { setup: number; teardown: number };
+export type RoomBuffers = Record<Room, RoomBuffer | undefined>;
+
+export type ConflictMode = "block" | "warn";
+
+export type Conflict = {
+  other: EventRow;
+  rooms: Room[];
+  /** "overlap": the bookings themselves overlap; "buffer": only the setup/teardown time does. */
+  kind: "overlap" | "buffer";
+};
+
+export const isActive = (e: EventRow) => ACTIVE_STATUSES.includes(e.status);
+
+function span(e: EventRow) {
+  const s = eventStart(e).getTime();
+  const en = eventEnd(e).getTime();
+  return { s, e: Math.max(s, en) };
+}
+
+function padded(e: EventRow, room: Room, buffers: RoomBuffers) {
+  const { s, e: en } = span(e);
+  const b = buffers[room];
+  return { s: s - (b?.setup || 0) * 60_000, e: en + (b?.teardown || 0) * 60_000 };
+}
+
+const overlaps = (a: { s: number; e: number }, b: { s: number; e: number }) => a.s < b.e && b.s < a.e;
+
+function clash(row: EventRow, other: EventRow, buffers: RoomBuffers): Conflict | null {
+  const shared = row.rooms.filter((r) => other.rooms.includes(r));
+  if (!shared.length) return null;
+  if (overlaps(span(row), span(other))) return { other, rooms: shared, kind: "overlap" };
+  const tight = shared.filter((r) => overlaps(padded(row, r, buffers), padded(other, r, buffers)));
+  return tight.length ? { other, rooms: tight, kind: "buffer" } : null;
+}
+
+/** Active bookings in `events` that share a room with `row` and clash with it, including buffer time. */
+export function findConflicts(row: EventRow, events: EventRow[], buffers: RoomBuffers = {}): Conflict[] {
+  if (!isActive(row) || !row.date || !row.start || !row.end) return [];
+  const out: Conflict[] = [];
+  for (const other of events) {
+    if (other === row || (row.id && other.id === row.id)) continue;
+    if (!isActive(other)) continue;
+    const c = clash(row, other, buffers);
+    if (c) out.push(c);
+  }
+  return out;
+}
+
+/** Conflicts for every event in `events`, keyed by event id (events without an id are skipped). */
+export function conflictIndex(events: EventRow[], buffers: RoomBuffers = {}) {
+  const map = new Map<string, Conflict[]>();
+  const add = (e: EventRow, c: Conflict) => {
+    if (!e.id) return;
+    const list = map.get(e.id) || [];
+    list.push(c);
+    map.set(e.id, list);
+  };
+  const maxPad = Math.max(0, ...Object.values(buffers).map((b) => (b?.setup || 0) + (b?.teardown || 0))) * 60_000;
+  const active = events
+    .filter((e) => isActive(e) && e.date && e.start && e.end)
+    .map((ev) => ({ ev, span: span(ev) }))
+    .sort((a, b) => a.span.s - b.span.s);
+  // sweep: once a later booking starts past this one's end plus the widest buffer, nothing further can clash
+  for (let i = 0; i < active.length; i++) {
+    for (let j = i + 1; j < active.length && active[j].span.s < active[i].span.e + maxPad; j++) {
+      const a = active[i].ev, b = active[j].ev;
+      if (a.id && a.id === b.id) continue;
+      const ab = clash(a, b, buffers);
+      if (!ab) continue;
+      add(a, ab);
+      add(b, { ...ab, other: a });
+    }
+  }
+  return map;
+}
+
+export function describeConflict(c: Conflict) {
+  const o = c.other;
+  const what = c.kind === "overlap" ? "overlaps" : "too close to";
+  return `${what} "${o.name}" ${fmtSpan(o)} (${c.rooms.join(", ")})`;
+}
@@ -0,0 +1,206 @@
+import { durationHrs, type EventRow, type Room } from "./events";
+import type { CancelPolicy } from "./cancellation";
+import { lostFor, revenueFor } from "./reports";
+import { validateRow, type RowIssue, type Validated } from "./schema";
+
+/** -------------------- CSV -------------------- */
+/** Plain EventRow fields, in column order; ledger, price and history only travel in JSON/ICS. */
+export const CSV_COLUMNS = [
+  "id", "name", "date", "endDate", "start", "end", "rooms", "status", "guests",
+  "rate", "day", "fee", "food", "drinks", "cancelReason", "canceledOn", "notes", "source", "holdUntil", "clientId",
+] as const;
+
+/** Rooms share one cell, joined with this. */
+export const ROOM_SEPARATOR = "|";
+
+function cell(v: unknown, sep: string) {
+  const s = v === undefined || v === null ? "" : String(v);
+  return /["\r\n]/.test(s) || s.includes(sep) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCSV(header: string[], rows: unknown[][], sep = ",") {
+  return [header, ...rows].map((r) => r.map((v) => cell(v, sep)).join(sep)).join("\r\n") + "\r\n";
+}
+
+/** Comma unless the header line has more semicolons (European spreadsheets) or tabs. */
+export function detectSeparator(text: string) {
+  const head = text.slice(0, text.search(/\r?\n|$/));
+  const count = (c: string) => head.split(c).length - 1;
+  return [";", "\t"].reduce((best, c) => (count(c) > count(best) ? c : best), ",");
+}
+
+/** RFC 4180 cells: quoted cells may hold separators, doubled quotes and line breaks. Blank lines are skipped. */
+export function parseCSV(text: string, sep = detectSeparator(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [], cur = "", quoted = false;
+  const endRow = () => {
+    row.push(cur);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    cur = "";
+  };
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { cur += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"' && cur === "") quoted = true;
+    else if (ch === sep) { row.push(cur); cur = ""; }
+    else if (ch === "\n") endRow();
+    else if (ch !== "\r") cur += ch;
+  }
+  if (cur !== "" || row.length) endRow();
+  return rows;
+}
+
+/** How a spreadsheet writes numbers and dates; "eu" = semicolons and decimal commas. */
+export type CsvDialect = "us" | "eu";
+
+/** Computed per-event figures appended to an export; the importer ignores them. */
+export const COMPUTED_COLUMNS = ["hours", "revenue", "lost"] as const;
+
+/**
+ * The events as CSV. With a `policy` the computed columns are added too, which is what the table
+ * export uses; without one the file round-trips through readEventsCSV.
+ */
+export function eventsToCSV(events: EventRow[], dialect: CsvDialect = "us", policy?: CancelPolicy) {
+  const sep = dialect === "eu" ? ";" : ",";
+  const n = (v: number) => (dialect === "eu" ? String(v).replace(".", ",") : String(v));
+  const round = (v: number) => Math.round(v * 100) / 100;
+  const rows = events.map((e) => {
+    const cells = CSV_COLUMNS.map((c) => {
+      const v = c === "rooms" ? e.rooms.join(ROOM_SEPARATOR) : e[c];
+      return typeof v === "number" ? n(v) : v;
+    });
+    return policy ? [...cells, n(round(durationHrs(e))), n(round(revenueFor(e))), n(round(lostFor(e, policy)))] : cells;
+  });
+  return toCSV(policy ? [...CSV_COLUMNS, ...COMPUTED_COLUMNS] : [...CSV_COLUMNS], rows, sep);
+}
+
+/** Reads a file written by eventsToCSV (header names matched case-insensitively) through the usual row validation. */
+export function readEventsCSV(text: string, dialect: CsvDialect = detectSeparator(text) === ";" ? "eu" : "us"): Validated {
+  const [header = [], ...lines] = parseCSV(text);
+  return readMapped(lines, guessMapping(header), { ...defaultMapOptions(dialect), roomSeparator: ROOM_SEPARATOR });
+}
+
+/** -------------------- Column mapping -------------------- */
+export type CsvField = (typeof CSV_COLUMNS)[number];
+
+/** Fields an event can't do without; the import stays disabled until each has a column. */
+export const REQUIRED_FIELDS: CsvField[] = ["name", "date", "start", "end", "status"];
+
+const NUMBER_FIELDS: CsvField[] = ["guests", "rate", "day", "fee", "food", "drinks"];
+const DATE_FIELDS: CsvField[] = ["date", "endDate", "canceledOn", "holdUntil"];
+
+/** Other header names spreadsheets commonly use for a field (lower case). */
+const ALIASES: Partial<Record<CsvField, string[]>> = {
+  name: ["event", "title", "summary", "client"],
+  date: ["start date", "event date", "datum"],
+  endDate: ["end date", "to date", "until"],
+  start: ["from", "start time", "begin", "time from"],
+  end: ["to", "end time", "time to"],
+  rooms: ["room", "room(s)", "space", "spaces", "location", "venue"],
+  guests: ["pax", "people", "attendees", "persons"],
+  rate: ["hourly", "hourly rate", "rate/h"],
+  day: ["day rate", "daily rate"],
+  fee: ["fixed fee", "flat fee", "price"],
+  food: ["catering"],
+  drinks: ["beverages", "bar"],
+  cancelReason: ["cancel reason", "cancellation reason", "reason"],
+  notes: ["note", "comments", "comment", "remarks"],
+};
+
+/** Field per column ("" = ignored), matched on header names and their aliases. */
+export function guessMapping(header: string[]): (CsvField | "")[] {
+  const taken = new Set<CsvField>();
+  return header.map((h) => {
+    const key = h.trim().toLowerCase();
+    const field = CSV_COLUMNS.find((c) => !taken.has(c) && (c.toLowerCase() === key || ALIASES[c]?.includes(key)));
+    if (field) taken.add(field);
+    return field || "";
+  });
+}
+
+/** Day order of dates that aren't yyyy-MM-dd, e.g. 31.12.2025 (dmy) or 12/31/2025 (mdy). */
+export type DateOrder = "dmy" | "mdy";
+
+export type MapOptions = {
+  decimal: "." | ",";
+  dateOrder: DateOrder;
+  /** Splits a rooms cell holding several rooms. */
+  roomSeparator: string;
+};
+
+export const defaultMapOptions = (dialect: CsvDialect): MapOptions =>
+  dialect === "eu" ? { decimal: ",", dateOrder: "dmy", roomSeparator: "," } : { decimal: ".", dateOrder: "mdy", roomSeparator: "," };
+
+/** dmy when some date's first part can only be a day, mdy when the second part can only be one, else `fallback`. */
+export function guessDateOrder(values: string[], fallback: DateOrder): DateOrder {
+  for (const v of values) {
+    const m = v.trim().match(/^(\d{1,2})[./-](\d{1,2})[./-]\d{2,4}$/);
+    if (m && +m[1] > 12) return "dmy";
+    if (m && +m[2] > 12) return "mdy";
+  }
+  return fallback;
+}
+
+/** `1.234,50` / `1,234.50` / `€ 12` as a number, or null when it isn't one. */
+export function parseLocaleNumber(v: string, decimal: "." | ",") {
+  let s = v.replace(/[\s\u00a0'€$£]/g, "");
+  if (!s) return null;
+  s = decimal === "," ? s.replace(/\./g, "").replace(",", ".") : s.replace(/,/g, "");
+  const n = Number(s);
+  return isFinite(n) ? n : null;
+}
+
+/** A spreadsheet date as yyyy-MM-dd, or null; two-digit years are taken as 20xx. */
+export function parseLocaleDate(v: string, order: DateOrder) {
+  const s = v.trim();
+  const iso = s.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  const loc = s.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})$/);
+  let y: number, m: number, d: number;
+  if (iso) [y, m, d] = [+iso[1], +iso[2], +iso[3]];
+  else if (loc) [d, m, y] = order === "dmy" ? [+loc[1], +loc[2], +loc[3]] : [+loc[2], +loc[1], +loc[3]];
+  else return null;
+  if (y < 100) y += 2000;
+  const dt = new Date(y, m - 1, d);
+  if (dt.getFullYear() !== y || dt.getMonth() !== m - 1 || dt.getDate() !== d) return null;
+  return `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+/** `9:30 pm` → 21:30; other values are left for the usual HH:mm check. */
+function parseClock(v: string) {
+  const m = v.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*([ap])\.?m\.?$/i);
+  if (!m) return v;
+  const h = (+m[1] % 12) + (m[3].toLowerCase() === "p" ? 12 : 0);
+  return `${String(h).padStart(2, "0")}:${m[2] || "00"}`;
+}
+
+/**
+ * Data lines through `mapping` into validated events. Cells that don't parse are passed on as they
+ * are, so validation reports them in its own words; issue indexes count data lines from 0.
+ */
+export function readMapped(lines: string[][], mapping: (CsvField | "")[], opts: MapOptions, known?: Room[]): Validated {
+  const rows: EventRow[] = [], issues: RowIssue[] = [];
+  const missing = REQUIRED_FIELDS.filter((f) => !mapping.includes(f));
+  if (missing.length) return { rows, issues: [{ index: -1, errors: [`no column for ${missing.join(", ")}`], warnings: [] }] };
+  lines.forEach((cells, i) => {
+    const raw: Record<string, unknown> = {};
+    mapping.forEach((field, c) => {
+      const v = (cells[c] ?? "").trim();
+      if (!field || !v) return;
+      if (NUMBER_FIELDS.includes(field)) raw[field] = parseLocaleNumber(v, opts.decimal) ?? v;
+      else if (DATE_FIELDS.includes(field)) raw[field] = parseLocaleDate(v, opts.dateOrder) ?? v;
+      else if (field === "start" || field === "end") raw[field] = parseClock(v);
+      else raw[field] = v;
+    });
+    const rooms = String(raw.rooms || "");
+    raw.rooms = (opts.roomSeparator ? rooms.split(opts.roomSeparator) : [rooms]).map((r) => r.trim()).filter(Boolean);
+    const { row, issue } = validateRow(raw, i, known);
+    if (row) rows.push(row);
+    if (issue) issues.push(issue);
+  });
+  return { rows, issues };
+}
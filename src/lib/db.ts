@@ -0,0 +1,203 @@
+import type { EventRow } from "./events";
+import type { RowChange } from "./journal";
+import { SCHEMA_VERSION, readEnvelope, type RowIssue } from "./schema";
+import { keepRejected, loadEvents, saveEvents } from "./storage";
+
+/** -------------------- IndexedDB event store -------------------- */
+/**
+ * One record per event, so a change only writes the events it touches. Each record carries a
+ * revision; a tab only overwrites a record at the revision it last saw, anything else is a conflict
+ * with another tab. The room catalog, settings and the journal stay in localStorage.
+ *
+ * The single localStorage key is kept as a mirror of what this tab last wrote, so a session that
+ * can't open IndexedDB starts from current data; what it changes there is copied back into
+ * IndexedDB the next time that opens.
+ */
+const DB_NAME = "events_tracker";
+const DB_VERSION = 1;
+const EVENTS = "events";
+const META = "meta";
+const FALLBACK_KEY = "events_tracker_fallback"; // set while changes only went to localStorage
+
+type Stored = { id: string; rev: number; row: EventRow };
+
+/**
+ * Another tab (or, with `server`, another machine through the sync server) saved its version of an
+ * event first. `mine` / `theirs` are missing on the side that deleted it.
+ */
+export type Conflict = { id: string; mine?: EventRow; theirs?: EventRow; server?: boolean };
+
+const request = <T>(r: IDBRequest<T>) =>
+  new Promise<T>((ok, fail) => {
+    r.onsuccess = () => ok(r.result);
+    r.onerror = () => fail(r.error);
+  });
+
+const finished = (tx: IDBTransaction) =>
+  new Promise<void>((ok, fail) => {
+    tx.oncomplete = () => ok();
+    tx.onerror = tx.onabort = () => fail(tx.error);
+  });
+
+let db: Promise<IDBDatabase> | null = null;
+function open() {
+  return (db ||= new Promise((ok, fail) => {
+    const r = indexedDB.open(DB_NAME, DB_VERSION);
+    r.onupgradeneeded = () => {
+      r.result.createObjectStore(EVENTS, { keyPath: "id" });
+      r.result.createObjectStore(META, { keyPath: "key" });
+    };
+    r.onsuccess = () => ok(r.result);
+    r.onerror = () => fail(r.error);
+  }));
+}
+
+/** Revision of every record as this tab last read or wrote it. */
+const revs = new Map<string, number>();
+/** Without IndexedDB (some private modes) everything falls back to the single localStorage key. */
+let fallback = false;
+
+/** The localStorage copy, which from now on is also where changes go; for when IndexedDB fails to load. */
+export function loadFallback() {
+  fallback = true;
+  try { localStorage.setItem(FALLBACK_KEY, "1"); } catch { /* the copy is all there is anyway */ }
+  return loadEvents();
+}
+
+/** Whether this tab only saves to localStorage. */
+export const usingFallback = () => fallback;
+
+/**
+ * All stored events. On first run, and after a session that fell back to localStorage, the
+ * localStorage data (any of its older keys) is copied over; records from an older schema version
+ * are migrated and written back.
+ */
+export async function loadStore(): Promise<{ events: EventRow[]; issues: RowIssue[] }> {
+  let d: IDBDatabase;
+  try {
+    d = await open();
+  } catch {
+    return loadFallback();
+  }
+  const tx = d.transaction([EVENTS, META], "readonly");
+  const [meta, records] = await Promise.all([
+    request(tx.objectStore(META).get("schema")) as Promise<{ version: number } | undefined>,
+    request(tx.objectStore(EVENTS).getAll()) as Promise<Stored[]>,
+  ]);
+  if (!meta || localStorage.getItem(FALLBACK_KEY)) {
+    const { events, issues } = loadEvents();
+    await writeAll(d, events);
+    localStorage.removeItem(FALLBACK_KEY);
+    return { events, issues };
+  }
+  const raw = records.map((r) => r.row);
+  const { rows, issues } = readEnvelope({ version: meta.version, events: raw });
+  keepRejected(raw, issues);
+  records.forEach((r) => revs.set(r.id, r.rev));
+  if (meta.version < SCHEMA_VERSION) await writeAll(d, rows);
+  return { events: rows, issues };
+}
+
+/** Replaces the whole store with `events` at the current schema version. */
+async function writeAll(d: IDBDatabase, events: EventRow[]) {
+  const tx = d.transaction([EVENTS, META], "readwrite");
+  const store = tx.objectStore(EVENTS);
+  store.clear();
+  revs.clear();
+  for (const e of events) {
+    if (!e.id) continue;
+    store.put({ id: e.id, rev: 1, row: e } satisfies Stored);
+    revs.set(e.id, 1);
+  }
+  tx.objectStore(META).put({ key: "schema", version: SCHEMA_VERSION });
+  await finished(tx);
+}
+
+/**
+ * Writes the changed events. Records another tab has written since this tab last saw them are left
+ * alone and come back as conflicts, unless `force` is set. `all` goes to the localStorage copy.
+ */
+export async function writeChanges(changes: RowChange[], all: EventRow[], force = false) {
+  const written: string[] = [], conflicts: Conflict[] = [];
+  const seen = new Map<string, number>();
+  if (fallback) {
+    saveEvents(all);
+    localStorage.setItem(FALLBACK_KEY, "1"); // again, in case a tab with IndexedDB took the copy since
+    return { written, conflicts };
+  }
+  const tx = (await open()).transaction(EVENTS, "readwrite");
+  const store = tx.objectStore(EVENTS);
+  for (const c of changes) {
+    const cur = (await request(store.get(c.id))) as Stored | undefined;
+    const rev = cur?.rev || 0;
+    if (!force && rev !== (revs.get(c.id) || 0)) {
+      // another tab already stored the very same version, e.g. both pulled it from the server
+      if (JSON.stringify(cur?.row ?? null) === JSON.stringify(c.after ?? null)) {
+        seen.set(c.id, rev);
+        continue;
+      }
+      conflicts.push({ id: c.id, mine: c.after, theirs: cur?.row });
+      continue;
+    }
+    if (c.after) store.put({ id: c.id, rev: rev + 1, row: c.after } satisfies Stored);
+    else store.delete(c.id);
+    seen.set(c.id, c.after ? rev + 1 : 0);
+    written.push(c.id);
+  }
+  await finished(tx);
+  if (!conflicts.length) mirror(all);
+  // only once committed: after a failed write the next try must still expect the old revisions
+  for (const [id, rev] of seen) revs.set(id, rev);
+  return { written, conflicts };
+}
+
+/** Keeps the localStorage copy current for a later fallback session; best effort, IndexedDB has the data. */
+function mirror(events: EventRow[]) {
+  try { saveEvents(events); } catch { /* e.g. over quota: the copy just stays older */ }
+}
+
+/** Current stored version of some events (missing `row`: deleted), e.g. after another tab wrote them. */
+export async function readRows(ids: string[]) {
+  const store = (await open()).transaction(EVENTS, "readonly").objectStore(EVENTS);
+  const out: { id: string; row?: EventRow }[] = [];
+  for (const id of ids) {
+    const cur = (await request(store.get(id))) as Stored | undefined;
+    revs.set(id, cur?.rev || 0);
+    out.push({ id, row: cur?.row });
+  }
+  return out;
+}
+
+/** -------------------- Tab sync -------------------- */
+const TAB = crypto.randomUUID();
+const CHANNEL = "events_tracker";
+const PING_KEY = "events_tracker_ping"; // storage-event fallback where BroadcastChannel is missing
+const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CHANNEL) : null;
+
+type Message = { tab: string; ids: string[] };
+
+/** Tells the other open tabs which events this tab just wrote. */
+export function announce(ids: string[]) {
+  if (!ids.length || fallback) return;
+  const msg: Message = { tab: TAB, ids };
+  if (channel) channel.postMessage(msg);
+  else localStorage.setItem(PING_KEY, JSON.stringify({ ...msg, at: Date.now() }));
+}
+
+/** Calls `fn` with the ids another tab wrote; returns the unsubscribe function. */
+export function listen(fn: (ids: string[]) => void) {
+  const take = (msg: Message | null) => {
+    if (msg && msg.tab !== TAB && Array.isArray(msg.ids)) fn(msg.ids);
+  };
+  if (channel) {
+    const onMessage = (ev: MessageEvent<Message>) => take(ev.data);
+    channel.addEventListener("message", onMessage);
+    return () => channel.removeEventListener("message", onMessage);
+  }
+  const onStorage = (ev: StorageEvent) => {
+    if (ev.key !== PING_KEY || !ev.newValue) return;
+    try { take(JSON.parse(ev.newValue)); } catch { /* ignore malformed pings */ }
+  };
+  window.addEventListener("storage", onStorage);
+  return () => window.removeEventListener("storage", onStorage);
+}
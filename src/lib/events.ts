@@ -0,0 +1,153 @@
+import type { CateringLine } from "./catering";
+import type { Ledger } from "./payments";
+import type { Discount, PriceSnapshot } from "./pricing";
+import type { OccurrenceOf, Series } from "./series";
+import type { StatusChange } from "./workflow";
+
+/** -------------------- Config -------------------- */
+/** Room name from the catalog (see rooms.ts). */
+export type Room = string;
+
+export const STATUSES = ["Taken", "Booked", "Canceled", "On hold", "Free"] as const;
+export type Status = (typeof STATUSES)[number];
+
+export type EventRow = {
+  id?: string;
+  name: string;
+  date: string;   // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd, same as date unless the event runs past midnight
+  start: string;  // HH:mm
+  end: string;    // HH:mm
+  rooms: Room[];
+  status: Status;
+  guests: number;
+  rate: number;   // hourly
+  day: number;    // full day
+  fee: number;    // fixed fee
+  food: number;
+  drinks: number;
+  cancelReason?: string;
+  canceledOn?: string; // yyyy-MM-dd the cancellation came in; drives the cancellation fee
+  notes?: string;
+  source?: string; // calendar an .ics import came from
+  discount?: Discount;
+  price?: PriceSnapshot; // rental as priced by the pricing rules; overrides fee/day/rate when set
+  ledger?: Ledger;        // deposits, payments and refunds
+  holdUntil?: string;     // yyyy-MM-dd last day an "On hold" event keeps its slot; on a series row, its first occurrence's
+  history?: StatusChange[]; // status changes, oldest first
+  clientId?: string;      // Client.id (clients.ts) of whoever booked
+  catering?: CateringLine[]; // itemized food/drinks; `food` and `drinks` hold their totals
+  series?: Series;        // recurring: this row is the first occurrence, the rule generates the rest (series.ts)
+  occurrenceOf?: OccurrenceOf; // on rows expanded from a series only; never stored
+};
+
+/** -------------------- Time -------------------- */
+export function parseTime(dateStr: string, timeStr: string) {
+  try {
+    const [h, m] = (timeStr || "0:0").split(":").map(Number);
+    const d = new Date(`${dateStr}T00:00:00`);
+    d.setHours(h || 0, m || 0, 0, 0);
+    return d;
+  } catch {
+    return new Date(dateStr);
+  }
+}
+
+export function fmtDate(d: Date) { return `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,"0")}-${String(d.getDate()).padStart(2,"0")}`; }
+export function fmtTime(d: Date) { return `${String(d.getHours()).padStart(2,"0")}:${String(d.getMinutes()).padStart(2,"0")}`; }
+
+export function nextDay(dateStr: string) {
+  const d = new Date(`${dateStr}T00:00:00`);
+  d.setDate(d.getDate() + 1);
+  return fmtDate(d);
+}
+
+/** End date for a single-date entry: the next day when the end time is not after the start time. */
+export function inferEndDate(date: string, start: string, end: string) {
+  if (!date) return date;
+  return start && end && end <= start ? nextDay(date) : date;
+}
+
+export const eventStart = (e: EventRow) => parseTime(e.date, e.start);
+export const eventEnd = (e: EventRow) => parseTime(e.endDate || e.date, e.end);
+
+/** Wall-clock hours; real elapsed time, so DST switches count as 23/25 hour days. */
+export function durationHrs(e: EventRow) {
+  const s = eventStart(e);
+  const en = eventEnd(e);
+  return Math.max(0, (en.getTime() - s.getTime()) / 3_600_000);
+}
+
+/** Part of the event falling on `day` as minutes from midnight, or null when it doesn't touch the day. */
+export function daySegment(e: EventRow, day: string) {
+  const dayStart = parseTime(day, "00:00").getTime();
+  const dayEnd = parseTime(nextDay(day), "00:00").getTime();
+  const s = eventStart(e).getTime(), en = Math.max(s + 1, eventEnd(e).getTime());
+  if (en <= dayStart || s >= dayEnd) return null;
+  return { from: Math.max(0, (s - dayStart) / 60_000), to: Math.min((dayEnd - dayStart) / 60_000, (en - dayStart) / 60_000) };
+}
+
+/** The event moved to start at `date` `start`, keeping its length. */
+export function moveEvent(e: EventRow, date: string, start: string): EventRow {
+  const ms = Math.max(0, eventEnd(e).getTime() - eventStart(e).getTime());
+  const en = new Date(parseTime(date, start).getTime() + ms);
+  return { ...e, date, start, endDate: fmtDate(en), end: fmtTime(en) };
+}
+
+/** "2025-01-31 20:00–02:00 (+1d)" style label for lists and messages. */
+export function fmtSpan(e: EventRow) {
+  if (!e.endDate || e.endDate === e.date) return `${e.date} ${e.start}–${e.end}`;
+  if (e.endDate === nextDay(e.date)) return `${e.date} ${e.start}–${e.end} (+1d)`;
+  return `${e.date} ${e.start} – ${e.endDate} ${e.end}`;
+}
+
+/** Hours of the event falling on each calendar day it touches. */
+export function dayParts(e: EventRow) {
+  const s = eventStart(e);
+  const en = eventEnd(e);
+  const parts: { date: string; hours: number }[] = [];
+  let cur = s;
+  while (cur < en) {
+    const next = new Date(cur);
+    next.setHours(0, 0, 0, 0);
+    next.setDate(next.getDate() + 1);
+    const stop = next < en ? next : en;
+    parts.push({ date: fmtDate(cur), hours: (stop.getTime() - cur.getTime()) / 3_600_000 });
+    cur = stop;
+  }
+  return parts.length ? parts : [{ date: e.date, hours: 0 }];
+}
+
+function sharesBy(e: EventRow, key: (date: string) => string) {
+  const parts = dayParts(e);
+  const total = parts.reduce((a, p) => a + p.hours, 0);
+  const map = new Map<string, number>();
+  for (const p of parts) {
+    const k = key(p.date);
+    map.set(k, (map.get(k) || 0) + (total ? p.hours / total : 1 / parts.length));
+  }
+  return Array.from(map.entries());
+}
+
+/** Fraction of the event's duration per year; zero-length events belong to their start year. */
+export function yearShares(e: EventRow): [number, number][] {
+  return sharesBy(e, (d) => d.slice(0, 4)).map(([y, share]) => [+y, share]);
+}
+
+/** Fraction of the event's duration per month ("yyyy-MM"). */
+export function monthShares(e: EventRow) {
+  return sharesBy(e, (d) => d.slice(0, 7));
+}
+
+/** True when the event overlaps the inclusive day range from..to (yyyy-MM-dd). */
+export function overlapsRange(e: EventRow, from: string, to: string) {
+  const s = eventStart(e).getTime();
+  return rangeTest(from, to)(s, Math.max(s, eventEnd(e).getTime()));
+}
+
+/** overlapsRange on start/end instants (ms) with the range parsed once, for filtering long lists. */
+export function rangeTest(from: string, to: string) {
+  const a = parseTime(from, "00:00").getTime();
+  const b = parseTime(nextDay(to), "00:00").getTime();
+  return (s: number, en: number) => s < b && (en > a || s >= a);
+}
@@ -0,0 +1,79 @@
+import { eventStart, fmtDate, type EventRow, type Room } from "./events";
+
+/** -------------------- Period comparison -------------------- */
+export type CompareMode = "none" | "previous" | "lastYear";
+
+const utcDay = (d: string) => new Date(Date.UTC(+d.slice(0, 4), +d.slice(5, 7) - 1, +d.slice(8, 10)));
+const iso = (d: Date) => d.toISOString().slice(0, 10);
+
+/**
+ * The range to compare from..to against: the equally long stretch right before it, or the same
+ * dates a year earlier (29 February becomes the 28th). Null when there is nothing to compare.
+ */
+export function comparisonRange(from: string, to: string, mode: CompareMode) {
+  if (mode === "none" || !from || !to || from > to) return null;
+  if (mode === "lastYear") {
+    const back = (d: string) => {
+      const y = +d.slice(0, 4) - 1;
+      const md = d.slice(5) === "02-29" ? "02-28" : d.slice(5);
+      return `${y}-${md}`;
+    };
+    return { from: back(from), to: back(to) };
+  }
+  const days = Math.round((utcDay(to).getTime() - utcDay(from).getTime()) / 86_400_000) + 1;
+  const end = utcDay(from);
+  end.setUTCDate(end.getUTCDate() - 1);
+  const start = new Date(end);
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+  return { from: iso(start), to: iso(end) };
+}
+
+/** -------------------- Pipeline forecast -------------------- */
+/** Chance (0..1) that an upcoming event with this status ends up taken. */
+export type Probabilities = { Booked: number; "On hold": number };
+
+export const DEFAULT_PROBABILITIES: Probabilities = { Booked: 0.9, "On hold": 0.4 };
+
+/** How far ahead occurrences of recurring events count towards the pipeline; one-off events count however far out. */
+export const FORECAST_MONTHS = 12;
+
+export type PipelineRow = { booked: number; hold: number; expected: number; events: number };
+
+const emptyRow = (): PipelineRow => ({ booked: 0, hold: 0, expected: 0, events: 0 });
+
+/**
+ * Upcoming Booked / On hold events (starting from `today`) valued at `value` and weighted by
+ * `probs`, per start month and per room (multi-room events are split evenly like Per Room).
+ */
+export function pipeline(events: EventRow[], value: (e: EventRow) => number, probs: Probabilities, today = fmtDate(new Date())) {
+  const months: Record<string, PipelineRow> = {};
+  const rooms: Record<Room, PipelineRow> = {};
+  const total = emptyRow();
+  const from = new Date(`${today}T00:00:00`).getTime();
+  for (const e of events) {
+    if ((e.status !== "Booked" && e.status !== "On hold") || !e.date || eventStart(e).getTime() < from) continue;
+    const v = value(e);
+    const add = (row: PipelineRow, share = 1) => {
+      if (e.status === "Booked") row.booked += v * share;
+      else row.hold += v * share;
+      row.expected += v * share * probs[e.status as keyof Probabilities];
+      row.events++;
+    };
+    add(total);
+    add((months[e.date.slice(0, 7)] ||= emptyRow()));
+    for (const r of e.rooms) add((rooms[r] ||= emptyRow()), 1 / e.rooms.length);
+  }
+  return {
+    total,
+    months: Object.entries(months).sort((a, b) => a[0].localeCompare(b[0])),
+    rooms: Object.entries(rooms).sort((a, b) => b[1].expected - a[1].expected),
+  };
+}
+
+/** Fills in missing statuses of stored probabilities; null when there is nothing usable. */
+export function normalizeProbabilities(raw: unknown): Probabilities | null {
+  if (!raw || typeof raw !== "object") return null;
+  const p = raw as Partial<Probabilities>;
+  const clamp = (v: unknown, d: number) => (typeof v === "number" && isFinite(v) ? Math.min(1, Math.max(0, v)) : d);
+  return { Booked: clamp(p.Booked, DEFAULT_PROBABILITIES.Booked), "On hold": clamp(p["On hold"], DEFAULT_PROBABILITIES["On hold"]) };
+}
@@ -0,0 +1,453 @@
+import { STATUSES, fmtDate, fmtTime, nextDay, parseTime, type EventRow, type Room, type Status } from "./events";
+import { occurrences, parseRRule, type YMD } from "./rrule";
+import { readCatering, readDiscount, readHistory, readLedger, readPrice, readSeries } from "./schema";
+import { rruleText } from "./series";
+
+/** -------------------- ICS import -------------------- */
+export type Rule = { room: Room; kws: string[] };
+
+export type IcsDefaults = {
+  status: Status;
+  guests: number;
+  rate: number;
+  day: number;
+  fee: number;
+  rules: string;
+  /** Window (yyyy-MM-dd, inclusive) that recurring events are expanded into. */
+  from: string;
+  to: string;
+};
+
+/** Keyword rules for the default rooms (rooms.ts). */
+export const DEFAULT_RULES = `Cafe: cafe,barista
+Hall: hall
+Backyard: backyard,garden
+Seminar room: seminar,workshop
+Conferences room: conference,meeting
+Pavilion: pavilion`;
+
+/** Upper bound on occurrences expanded from a single RRULE. */
+const MAX_OCCURRENCES = 5000;
+
+export function unfoldICSLines(raw: string) {
+  const lines = raw.replace(/\r\n/g, "\n").split("\n");
+  const out: string[] = [];
+  for (const line of lines) {
+    if (/^\s/.test(line) && out.length) out[out.length - 1] += line.slice(1);
+    else out.push(line);
+  }
+  return out;
+}
+/** One content line: `NAME;PARAM=a,b;OTHER="x:y":value`. Parameter names are upper-cased, quotes removed. */
+export type IcsProp = { name: string; params: Record<string, string>; value: string };
+
+export function parseContentLine(line: string): IcsProp | null {
+  let inQuotes = false;
+  const cuts: number[] = [];
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && ch === ";") cuts.push(i);
+    else if (!inQuotes && ch === ":") { colon = i; break; }
+  }
+  if (colon < 0) return null;
+  const head = line.slice(0, colon);
+  const bounds = [...cuts, colon];
+  const name = head.slice(0, bounds[0]).trim().toUpperCase();
+  const params: Record<string, string> = {};
+  for (let i = 0; i < cuts.length; i++) {
+    const raw = line.slice(cuts[i] + 1, bounds[i + 1]);
+    const eq = raw.indexOf("=");
+    if (eq < 0) continue;
+    params[raw.slice(0, eq).trim().toUpperCase()] = raw.slice(eq + 1).replace(/"/g, "");
+  }
+  return { name, params, value: line.slice(colon + 1) };
+}
+
+/** VEVENT components as property lists; nested components (VALARM…) are skipped. */
+export function readEvents(lines: string[]) {
+  const blocks: IcsProp[][] = [];
+  let cur: IcsProp[] | null = null;
+  let depth = 0;
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+    if (upper === "BEGIN:VEVENT" && !cur) { cur = []; depth = 0; continue; }
+    if (!cur) continue;
+    if (upper.startsWith("BEGIN:")) { depth++; continue; }
+    if (upper.startsWith("END:")) {
+      if (depth) depth--;
+      else { blocks.push(cur); cur = null; }
+      continue;
+    }
+    if (depth) continue;
+    const prop = parseContentLine(line);
+    if (prop) cur.push(prop);
+  }
+  return blocks;
+}
+
+/** -------------------- Date values & time zones -------------------- */
+type Wall = YMD & { h: number; mi: number; s: number };
+/** "utc", "floating" (the viewer's local time) or an IANA zone name from TZID. */
+type Zone = string;
+type Stamp = { wall: Wall; zone: Zone; allDay: boolean };
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat | null>();
+function zoneFormat(tz: string) {
+  if (!zoneFormats.has(tz)) {
+    try {
+      zoneFormats.set(tz, new Intl.DateTimeFormat("en-US", {
+        timeZone: tz, hourCycle: "h23",
+        year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit",
+      }));
+    } catch {
+      zoneFormats.set(tz, null);
+    }
+  }
+  return zoneFormats.get(tz)!;
+}
+function zoneOffset(ms: number, fmt: Intl.DateTimeFormat) {
+  const p: Record<string, number> = {};
+  for (const part of fmt.formatToParts(new Date(ms))) if (part.type !== "literal") p[part.type] = +part.value;
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(ms / 1000) * 1000;
+}
+
+/** The instant a wall-clock time denotes in `zone`; unknown TZIDs fall back to local time. */
+export function wallToInstant(w: Wall, zone: Zone) {
+  if (zone === "utc") return new Date(Date.UTC(w.y, w.m - 1, w.d, w.h, w.mi, w.s));
+  const fmt = zone === "floating" ? null : zoneFormat(zone.replace(/^\//, ""));
+  if (!fmt) return new Date(w.y, w.m - 1, w.d, w.h, w.mi, w.s);
+  const guess = Date.UTC(w.y, w.m - 1, w.d, w.h, w.mi, w.s);
+  // the offset at the guess can differ from the one at the answer around DST switches, so re-check once
+  const first = guess - zoneOffset(guess, fmt);
+  return new Date(guess - zoneOffset(first, fmt));
+}
+
+function readStamp(value: string, params: Record<string, string>): Stamp | null {
+  const v = value.trim();
+  const d = v.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (d || params.VALUE === "DATE") {
+    if (!d) return null;
+    return { wall: { y: +d[1], m: +d[2], d: +d[3], h: 0, mi: 0, s: 0 }, zone: "floating", allDay: true };
+  }
+  const t = v.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!t) return null;
+  const wall = { y: +t[1], m: +t[2], d: +t[3], h: +t[4], mi: +t[5], s: +t[6] };
+  return { wall, zone: t[7] ? "utc" : params.TZID || "floating", allDay: false };
+}
+const stampOf = (p?: IcsProp) => (p ? readStamp(p.value, p.params) : null);
+const instantOf = (st: Stamp) => wallToInstant(st.wall, st.zone);
+/** Floating date-times inside an event (RDATE, EXDATE, UNTIL, RECURRENCE-ID) use the zone of its DTSTART. */
+const inZone = (st: Stamp, zone: Zone): Stamp => (st.allDay || st.zone !== "floating" ? st : { ...st, zone });
+
+/** ISO 8601 duration as nominal days plus exact milliseconds (RFC 5545 §3.3.6). */
+function parseDuration(v: string) {
+  const m = v.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const sign = m[1] === "-" ? -1 : 1;
+  return {
+    days: sign * ((+m[2] || 0) * 7 + (+m[3] || 0)),
+    ms: sign * (((+m[4] || 0) * 60 + (+m[5] || 0)) * 60 + (+m[6] || 0)) * 1000,
+  };
+}
+
+const toUTCDay = (w: YMD) => Date.UTC(w.y, w.m - 1, w.d);
+
+function shiftWall(w: Wall, days: number): Wall {
+  const t = new Date(Date.UTC(w.y, w.m - 1, w.d + days));
+  return { ...w, y: t.getUTCFullYear(), m: t.getUTCMonth() + 1, d: t.getUTCDate() };
+}
+
+/** -------------------- Status -------------------- */
+/** iCal STATUS → our Status. CONFIRMED (or none) keeps the import default. */
+export function mapICSStatus(ics: string | undefined, fallback: Status): Status {
+  switch ((ics || "").trim().toUpperCase()) {
+    case "CANCELLED": return "Canceled";
+    case "TENTATIVE": return "On hold";
+    default: return fallback;
+  }
+}
+
+/** `Room: keyword, keyword` lines; rules naming a room that isn't in `rooms` are dropped. */
+export function parseRules(text: string, rooms: Room[]): Rule[] {
+  const rules: Rule[] = [];
+  (text || "")
+    .split(/\n+/)
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .forEach((line) => {
+      const [room, keys] = line.split(":");
+      if (!room || !keys) return;
+      const roomName = room.trim();
+      if (!rooms.includes(roomName)) return;
+      const kws = keys.split(",").map((k) => k.trim().toLowerCase()).filter(Boolean);
+      if (kws.length) rules.push({ room: roomName, kws });
+    });
+  return rules;
+}
+export function guessRooms(summary: string, location: string, rules: Rule[]): Room[] {
+  const hay = `${summary || ""} ${location || ""}`.toLowerCase();
+  const hits = new Set<Room>();
+  for (const r of rules) if (r.kws.some((k) => hay.includes(k))) hits.add(r.room);
+  return Array.from(hits);
+}
+
+/** Inverse of escapeText (RFC 5545 §3.3.11). */
+export function unescapeText(v: string) {
+  return v.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+/** Values of a multi-value TEXT property: split on the commas that aren't escaped, then unescaped (RFC 5545 §3.1.1). */
+export function splitText(v: string) {
+  return (v.match(/(?:\\.|[^,\\])+/g) || []).map(unescapeText);
+}
+
+/** X-ET-DISCOUNT / X-ET-PRICE / X-ET-LEDGER / X-ET-HISTORY / X-ET-CATERING, only set on rows that have them. */
+function extras(discount: string, price: string, ledger: string, history: string, catering: string): Pick<EventRow, "discount" | "price" | "ledger" | "history" | "catering"> {
+  const out: Pick<EventRow, "discount" | "price" | "ledger" | "history" | "catering"> = {};
+  const d = readDiscount(discount), p = readPrice(price), l = readLedger(ledger), h = readHistory(history), c = readCatering(catering);
+  if (d) out.discount = d;
+  if (p) out.price = p;
+  if (l) out.ledger = l;
+  if (h) out.history = h;
+  if (c) out.catering = c;
+  return out;
+}
+
+const utcKey = (d: Date) => d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/** Calendar name (X-WR-CALNAME) of an .ics file, if it has one. */
+export function calendarName(txt: string) {
+  const line = unfoldICSLines(txt).find((l) => /^X-WR-CALNAME[;:]/i.test(l));
+  const prop = line ? parseContentLine(line) : null;
+  return prop ? unescapeText(prop.value).trim() : "";
+}
+
+/** `source` tags the rows so a later re-import of the same calendar can spot events removed upstream. */
+export function parseICS(txt: string, defaults: IcsDefaults, rooms: Room[], source?: string): EventRow[] {
+  const rules = parseRules(defaults.rules, rooms);
+  const winFrom = defaults.from ? parseTime(defaults.from, "00:00").getTime() : -Infinity;
+  const winTo = defaults.to ? parseTime(nextDay(defaults.to), "00:00").getTime() : Infinity;
+  const inWindow = (d: Date) => d.getTime() >= winFrom && d.getTime() < winTo;
+
+  type Parsed = { props: IcsProp[]; get: (name: string) => IcsProp | undefined; start: Stamp; dur: { days: number; ms: number } };
+  const masters: Parsed[] = [];
+  const overrides = new Map<string, (Parsed & { rid: Stamp })[]>();
+  for (const props of readEvents(unfoldICSLines(txt))) {
+    const get = (name: string) => props.find((p) => p.name === name);
+    const start = stampOf(get("DTSTART"));
+    if (!start) continue;
+    const endStamp = stampOf(get("DTEND"));
+    const duration = get("DURATION") && parseDuration(get("DURATION")!.value);
+    let dur = { days: start.allDay ? 1 : 0, ms: 0 };
+    if (endStamp && start.allDay) dur = { days: Math.round((toUTCDay(endStamp.wall) - toUTCDay(start.wall)) / 86_400_000), ms: 0 };
+    else if (endStamp) dur = { days: 0, ms: instantOf(endStamp).getTime() - instantOf(start).getTime() };
+    else if (duration) dur = duration;
+    const parsed = { props, get, start, dur };
+    const rid = stampOf(get("RECURRENCE-ID"));
+    const uid = get("UID")?.value.trim() || "";
+    if (rid && uid) overrides.set(uid, [...(overrides.get(uid) || []), { ...parsed, rid }]);
+    else masters.push(parsed);
+  }
+
+  const rowFrom = (ev: Parsed, id: string, s: Stamp): EventRow => {
+    const startAt = instantOf(s);
+    const endWall = shiftWall(s.wall, ev.dur.days);
+    const endAt = new Date(wallToInstant(endWall, s.zone).getTime() + ev.dur.ms);
+    const text = (name: string) => unescapeText(ev.get(name)?.value || "");
+    const name = text("SUMMARY");
+    const loc = text("LOCATION");
+    const desc = text("DESCRIPTION");
+    // files written by toICS carry the full row in X-ET-* properties; prefer those over the guesses
+    const own = !!ev.get("X-ET-STATUS");
+    const mapped = own
+      // older exports escaped the commas between rooms too
+      ? splitText(ev.get("X-ET-ROOMS")?.value || "").flatMap((r) => (rooms.includes(r) ? [r] : r.split(","))).filter((r) => rooms.includes(r))
+      : guessRooms(name, loc, rules);
+    const status = STATUSES.find((st) => st === ev.get("X-ET-STATUS")?.value) || mapICSStatus(ev.get("STATUS")?.value, defaults.status);
+    const num = (key: string, fallback: number) => {
+      const v = ev.get(key)?.value;
+      return v !== undefined && v.trim() !== "" && !isNaN(+v) ? +v : fallback;
+    };
+    const row: EventRow = {
+      id,
+      name,
+      date: fmtDate(startAt), endDate: fmtDate(endAt), start: fmtTime(startAt), end: fmtTime(endAt),
+      rooms: mapped,
+      status,
+      guests: num("X-ET-GUESTS", defaults.guests),
+      rate: num("X-ET-RATE", defaults.rate),
+      day: num("X-ET-DAY", defaults.day),
+      fee: num("X-ET-FEE", defaults.fee),
+      food: num("X-ET-FOOD", 0),
+      drinks: num("X-ET-DRINKS", 0),
+      notes: own ? desc : desc || loc,
+      cancelReason: text("X-ET-CANCEL-REASON"),
+      ...(own && text("X-ET-CANCELED-ON") ? { canceledOn: text("X-ET-CANCELED-ON") } : {}),
+      ...(own && text("X-ET-CLIENT") ? { clientId: text("X-ET-CLIENT") } : {}),
+      ...(own && status === "On hold" && text("X-ET-HOLD-UNTIL") ? { holdUntil: text("X-ET-HOLD-UNTIL") } : {}),
+      ...(own ? (text("X-ET-SOURCE") ? { source: text("X-ET-SOURCE") } : {}) : source ? { source } : {}),
+      ...(own ? extras(text("X-ET-DISCOUNT"), text("X-ET-PRICE"), text("X-ET-LEDGER"), text("X-ET-HISTORY"), text("X-ET-CATERING")) : {}),
+    };
+    const series = own && text("X-ET-SERIES") ? readSeries(text("X-ET-SERIES"), row) : undefined;
+    return series ? { ...row, series } : row;
+  };
+
+  const imported: EventRow[] = [];
+  for (const ev of masters) {
+    const uid = ev.get("UID")?.value.trim() || crypto.randomUUID();
+    const rule = ev.get("RRULE") && parseRRule(ev.get("RRULE")!.value);
+    const rdates = ev.props.filter((p) => p.name === "RDATE");
+    // our own series come back as series; the RRULE next to them is for other calendar apps
+    if ((!rule && !rdates.length) || (ev.get("X-ET-STATUS") && ev.get("X-ET-SERIES"))) {
+      imported.push(rowFrom(ev, uid, ev.start));
+      continue;
+    }
+    const moved = new Map<number, Parsed>();
+    for (const o of overrides.get(uid) || []) {
+      moved.set(instantOf(inZone(o.rid, ev.start.zone)).getTime(), o);
+    }
+    overrides.delete(uid);
+    // occurrence starts, keyed by instant so EXDATE / RECURRENCE-ID can address them
+    const starts = new Map<number, Stamp>();
+    if (rule) {
+      const until = rule.until ? readStamp(rule.until, {}) : null;
+      if (until) until.zone = inZone(until, ev.start.zone).zone;
+      const untilMs = until ? (until.allDay ? wallToInstant(shiftWall(until.wall, 1), ev.start.zone).getTime() - 1 : instantOf(until).getTime()) : Infinity;
+      // occurrences before the window are walked past, not counted, so an old DTSTART still fills it;
+      // there is at most one period per day to walk
+      const behind = Math.max(0, Math.ceil((winFrom - instantOf(ev.start).getTime()) / 86_400_000));
+      let n = 0;
+      for (const d of occurrences(ev.start.wall, rule, 20_000 + behind)) {
+        const st = { ...ev.start, wall: { ...ev.start.wall, ...d } };
+        const at = instantOf(st).getTime();
+        if (at > untilMs || at >= winTo) break;
+        // kept only when moved, maybe into the window
+        if (at < winFrom && !moved.has(at)) continue;
+        if (++n > MAX_OCCURRENCES) break;
+        starts.set(at, st);
+      }
+    } else starts.set(instantOf(ev.start).getTime(), ev.start);
+    const listed = (name: string) =>
+      ev.props
+        .filter((p) => p.name === name)
+        .flatMap((p) => p.value.split(",").map((v) => readStamp(v, p.params)))
+        .filter((st): st is Stamp => !!st)
+        .map((st) => inZone(st, ev.start.zone));
+    for (const st of listed("RDATE")) starts.set(instantOf(st).getTime(), st);
+    for (const ex of listed("EXDATE")) {
+      // a DATE-valued EXDATE removes every occurrence on that day
+      if (ex.allDay && !ev.start.allDay) {
+        for (const [at, st] of starts) if (st.wall.y === ex.wall.y && st.wall.m === ex.wall.m && st.wall.d === ex.wall.d) starts.delete(at);
+      } else starts.delete(instantOf(ex).getTime());
+    }
+    for (const [at, st] of [...starts].sort((a, b) => a[0] - b[0])) {
+      const id = `${uid}/${utcKey(new Date(at))}`;
+      const o = moved.get(at);
+      if (o) {
+        if (inWindow(instantOf(o.start)) || inWindow(new Date(at))) imported.push(rowFrom(o, id, o.start));
+      } else if (inWindow(new Date(at))) imported.push(rowFrom(ev, id, st));
+    }
+  }
+  // overrides without a recurring master in this file
+  for (const [uid, list] of overrides) {
+    for (const o of list) {
+      if (inWindow(instantOf(o.start))) imported.push(rowFrom(o, `${uid}/${utcKey(instantOf(o.rid))}`, o.start));
+    }
+  }
+  return imported;
+}
+
+/** -------------------- ICS export -------------------- */
+const ICS_STATUS: Record<Status, string> = {
+  Taken: "CONFIRMED",
+  Booked: "CONFIRMED",
+  "On hold": "TENTATIVE",
+  Canceled: "CANCELLED",
+  Free: "CONFIRMED",
+};
+
+/** TEXT value escaping (RFC 5545 §3.3.11). */
+export function escapeText(v: string) {
+  return v.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Folds a content line to 75 octets per physical line without splitting UTF-8 sequences (RFC 5545 §3.1). */
+export function foldLine(line: string) {
+  const enc = new TextEncoder();
+  const out: string[] = [];
+  let cur = "", size = 0;
+  for (const ch of line) {
+    const n = enc.encode(ch).length;
+    // continuation lines start with a space, which counts towards their 75 octets
+    if (size + n > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = "";
+      size = 0;
+    }
+    cur += ch;
+    size += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+
+export function toICS(events: EventRow[], calName = "Events Tracker") {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//events_tracker//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calName)}`,
+  ];
+  const stamp = utcKey(new Date());
+  for (const e of events) {
+    if (!e.date || !e.start || !e.end) continue;
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${e.id || crypto.randomUUID()}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${utcKey(parseTime(e.date, e.start))}`,
+      `DTEND:${utcKey(parseTime(e.endDate || e.date, e.end))}`,
+      `SUMMARY:${escapeText(e.name || "")}`,
+      `LOCATION:${escapeText((e.rooms || []).join(", "))}`,
+      `STATUS:${ICS_STATUS[e.status] || "CONFIRMED"}`,
+      // free and canceled events don't block the room, so they shouldn't show as busy either
+      `TRANSP:${e.status === "Free" || e.status === "Canceled" ? "TRANSPARENT" : "OPAQUE"}`,
+    );
+    if (e.notes) lines.push(`DESCRIPTION:${escapeText(e.notes)}`);
+    if (e.series) {
+      // other calendar apps get the rule and the skipped dates; changed occurrences only travel in X-ET-SERIES
+      const until = e.series.until ? `;UNTIL=${utcKey(new Date(parseTime(nextDay(e.series.until), "00:00").getTime() - 1000))}` : "";
+      lines.push(`RRULE:${rruleText(e.series)}${until}`);
+      for (const d of e.series.skip || []) lines.push(`EXDATE:${utcKey(parseTime(d, e.start))}`);
+    }
+    lines.push(
+      `X-ET-STATUS:${e.status}`,
+      `X-ET-ROOMS:${(e.rooms || []).map(escapeText).join(",")}`,
+      `X-ET-GUESTS:${e.guests || 0}`,
+      `X-ET-RATE:${e.rate || 0}`,
+      `X-ET-DAY:${e.day || 0}`,
+      `X-ET-FEE:${e.fee || 0}`,
+      `X-ET-FOOD:${e.food || 0}`,
+      `X-ET-DRINKS:${e.drinks || 0}`,
+    );
+    if (e.cancelReason) lines.push(`X-ET-CANCEL-REASON:${escapeText(e.cancelReason)}`);
+    if (e.canceledOn) lines.push(`X-ET-CANCELED-ON:${e.canceledOn}`);
+    if (e.source) lines.push(`X-ET-SOURCE:${escapeText(e.source)}`);
+    if (e.discount?.value) lines.push(`X-ET-DISCOUNT:${e.discount.kind}:${e.discount.value}`);
+    if (e.price) lines.push(`X-ET-PRICE:${escapeText(JSON.stringify(e.price))}`);
+    if (e.ledger) lines.push(`X-ET-LEDGER:${escapeText(JSON.stringify(e.ledger))}`);
+    if (e.holdUntil) lines.push(`X-ET-HOLD-UNTIL:${e.holdUntil}`);
+    if (e.history?.length) lines.push(`X-ET-HISTORY:${escapeText(JSON.stringify(e.history))}`);
+    if (e.clientId) lines.push(`X-ET-CLIENT:${escapeText(e.clientId)}`);
+    if (e.catering?.length) lines.push(`X-ET-CATERING:${escapeText(JSON.stringify(e.catering))}`);
+    if (e.series) lines.push(`X-ET-SERIES:${escapeText(JSON.stringify(e.series))}`);
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
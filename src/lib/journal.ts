@@ -0,0 +1,114 @@
+import type { EventRow } from "./events";
+
+/** -------------------- Change journal -------------------- */
+/** One event before and after a change; a missing side means it was added or deleted. */
+export type RowChange = { id: string; before?: EventRow; after?: EventRow };
+
+export type JournalEntry = {
+  id: string;
+  at: string;    // ISO timestamp
+  who: string;
+  action: string; // e.g. "Edit event", "Import events.json"
+  changes: RowChange[];
+};
+
+/** Entries before `cursor` are applied; the ones after it can be redone until the next change. */
+export type Journal = { who: string; entries: JournalEntry[]; cursor: number };
+
+/** Oldest entries are dropped past this, so the journal fits in local storage. */
+export const JOURNAL_LIMIT = 100;
+
+export const emptyJournal = (who = "local"): Journal => ({ who, entries: [], cursor: 0 });
+
+const same = (a?: EventRow, b?: EventRow) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/** Row-level differences between two versions of the event list, matched by id. */
+export function diffEvents(prev: EventRow[], next: EventRow[]): RowChange[] {
+  const before = new Map(prev.filter((e) => e.id).map((e) => [e.id!, e]));
+  const out: RowChange[] = [];
+  for (const e of next) {
+    if (!e.id) continue;
+    const b = before.get(e.id);
+    before.delete(e.id);
+    if (!same(b, e)) out.push({ id: e.id, ...(b ? { before: b } : {}), after: e });
+  }
+  for (const [id, b] of before) out.push({ id, before: b });
+  return out;
+}
+
+/** Appends an entry for `changes` (if any), dropping whatever could still be redone. */
+export function record(j: Journal, action: string, changes: RowChange[], at = new Date().toISOString()): Journal {
+  if (!changes.length) return j;
+  const entry: JournalEntry = { id: crypto.randomUUID(), at, who: j.who, action, changes };
+  const entries = [...j.entries.slice(0, j.cursor), entry].slice(-JOURNAL_LIMIT);
+  return { ...j, entries, cursor: entries.length };
+}
+
+/** `events` with one entry's changes rolled back ("undo") or re-applied ("redo"). */
+export function replay(events: EventRow[], entry: JournalEntry, dir: "undo" | "redo") {
+  return patchRows(events, new Map(entry.changes.map((c) => [c.id, dir === "undo" ? c.before : c.after])));
+}
+
+/** `events` with the rows in `want` replaced by id, deleted (undefined) or appended when new. */
+export function patchRows(events: EventRow[], want: Map<string, EventRow | undefined>) {
+  want = new Map(want);
+  const out: EventRow[] = [];
+  for (const e of events) {
+    if (!e.id || !want.has(e.id)) out.push(e);
+    else {
+      const row = want.get(e.id);
+      want.delete(e.id);
+      if (row) out.push(row);
+    }
+  }
+  for (const row of want.values()) if (row) out.push(row);
+  return out;
+}
+
+/** Moves `events` from the journal's cursor to `target`, undoing or redoing every entry in between. */
+export function travel(events: EventRow[], j: Journal, target: number) {
+  const to = Math.max(0, Math.min(j.entries.length, target));
+  let out = events;
+  for (let i = j.cursor; i > to; i--) out = replay(out, j.entries[i - 1], "undo");
+  for (let i = j.cursor; i < to; i++) out = replay(out, j.entries[i], "redo");
+  return { events: out, journal: { ...j, cursor: to } };
+}
+
+/** One-line summary of an entry, e.g. "2 added, 1 changed". */
+export function describeEntry(e: JournalEntry) {
+  let added = 0, changed = 0, removed = 0;
+  for (const c of e.changes) {
+    if (!c.before) added++;
+    else if (!c.after) removed++;
+    else changed++;
+  }
+  const parts = [added && `${added} added`, changed && `${changed} changed`, removed && `${removed} deleted`].filter(Boolean);
+  const one = e.changes.length === 1 ? ` "${(e.changes[0].after || e.changes[0].before)!.name}"` : "";
+  return `${parts.join(", ")}${one}`;
+}
+
+export function normalizeJournal(raw: unknown): Journal | null {
+  if (!raw || typeof raw !== "object") return null;
+  const j = raw as Partial<Journal>;
+  const entries = Array.isArray(j.entries)
+    ? j.entries.filter((e) => e && typeof e.id === "string" && typeof e.at === "string" && Array.isArray(e.changes))
+    : [];
+  const cursor = typeof j.cursor === "number" ? Math.max(0, Math.min(entries.length, j.cursor)) : entries.length;
+  return { who: typeof j.who === "string" && j.who.trim() ? j.who : "local", entries, cursor };
+}
+
+/** -------------------- Snapshots -------------------- */
+/** A full copy of the events, taken by hand or automatically before destructive operations. */
+export type Snapshot = { id: string; at: string; label: string; events: EventRow[] };
+
+/** Snapshots kept; the oldest go first. */
+export const SNAPSHOT_LIMIT = 10;
+
+export function addSnapshot(list: Snapshot[], label: string, events: EventRow[], at = new Date().toISOString()): Snapshot[] {
+  return [{ id: crypto.randomUUID(), at, label, events }, ...list].slice(0, SNAPSHOT_LIMIT);
+}
+
+export function normalizeSnapshots(raw: unknown): Snapshot[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((s) => s && typeof s.id === "string" && typeof s.at === "string" && Array.isArray(s.events));
+}
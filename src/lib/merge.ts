@@ -0,0 +1,117 @@
+import type { EventRow } from "./events";
+
+/** -------------------- Import diff / merge -------------------- */
+/** "removed": present locally but missing from the incoming data it came from. */
+export type DiffKind = "new" | "changed" | "unchanged" | "removed";
+/**
+ * What to do with one row: for new rows "merge"/"replace" add it; for changed rows "merge" only
+ * takes non-empty incoming values, "replace" takes the incoming row as is; for removed rows
+ * "replace" deletes the local copy. "skip" always leaves local data untouched.
+ */
+export type RowAction = "merge" | "replace" | "skip";
+
+export type DiffEntry = {
+  id: string;
+  kind: DiffKind;
+  existing?: EventRow;
+  incoming?: EventRow;
+  /** Fields a merge would change. */
+  changed: string[];
+};
+
+const isBlank = (v: unknown) =>
+  v === undefined || v === null || v === "" || v === 0 || (Array.isArray(v) && v.length === 0);
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? "") === JSON.stringify(b ?? "");
+
+/** One row per id (the last one wins); rows without an id get a fresh one. */
+export function dedupeById(rows: EventRow[]) {
+  const map = new Map<string, EventRow>();
+  for (const r of rows) {
+    const id = r.id || crypto.randomUUID();
+    map.delete(id);
+    map.set(id, { ...r, id });
+  }
+  return Array.from(map.values());
+}
+
+/** Incoming values win unless they are empty, so a re-import doesn't wipe locally entered prices or notes. */
+export function mergeRow(existing: EventRow, incoming: EventRow): EventRow {
+  const out: Record<string, unknown> = { ...existing };
+  for (const [k, v] of Object.entries(incoming)) if (!isBlank(v)) out[k] = v;
+  return { ...(out as EventRow), id: existing.id };
+}
+
+function changedFields(a: EventRow, b: EventRow) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  keys.delete("id");
+  const ra = a as Record<string, unknown>, rb = b as Record<string, unknown>;
+  return Array.from(keys).filter((k) => !same(ra[k], rb[k]));
+}
+
+/**
+ * Compares incoming rows against local data by id. Local rows for which `removedScope` returns
+ * true but which are absent from `incoming` are reported as removed upstream.
+ */
+export function diffImport(existing: EventRow[], incoming: EventRow[], removedScope: (e: EventRow) => boolean = () => false) {
+  const local = new Map<string, EventRow>();
+  for (const e of existing) if (e.id && !local.has(e.id)) local.set(e.id, e);
+  const rows = dedupeById(incoming);
+  const seen = new Set<string>();
+  const out: DiffEntry[] = [];
+  for (const inc of rows) {
+    const id = inc.id!;
+    seen.add(id);
+    const ex = local.get(id);
+    if (!ex) {
+      out.push({ id, kind: "new", incoming: inc, changed: [] });
+      continue;
+    }
+    const changed = changedFields(ex, mergeRow(ex, inc));
+    out.push({ id, kind: changed.length ? "changed" : "unchanged", existing: ex, incoming: inc, changed });
+  }
+  for (const [id, ex] of local) {
+    if (!seen.has(id) && removedScope(ex)) out.push({ id, kind: "removed", existing: ex, changed: [] });
+  }
+  return out;
+}
+
+export function defaultAction(kind: DiffKind): RowAction {
+  return kind === "new" || kind === "changed" ? "merge" : "skip";
+}
+
+/** Applies the chosen actions; the result never holds two rows with the same id. */
+export function applyImport(existing: EventRow[], entries: DiffEntry[], actions: Record<string, RowAction>) {
+  const byId = new Map(entries.map((d) => [d.id, d]));
+  const act = (d: DiffEntry) => actions[d.id] || defaultAction(d.kind);
+  const out: EventRow[] = [];
+  const ids = new Set<string>();
+  for (const e of existing) {
+    if (e.id && ids.has(e.id)) continue;
+    if (e.id) ids.add(e.id);
+    const d = e.id ? byId.get(e.id) : undefined;
+    if (!d || act(d) === "skip" || d.kind === "unchanged") out.push(e);
+    else if (d.kind === "removed") { if (act(d) !== "replace") out.push(e); }
+    else out.push(act(d) === "replace" ? { ...d.incoming!, id: e.id } : mergeRow(e, d.incoming!));
+  }
+  for (const d of entries) {
+    if (d.kind === "new" && act(d) !== "skip" && !ids.has(d.id)) {
+      ids.add(d.id);
+      out.push(d.incoming!);
+    }
+  }
+  return out;
+}
+
+/** True when applying would overwrite or delete local rows, rather than only add and merge. */
+export function isDestructive(entries: DiffEntry[], actions: Record<string, RowAction>) {
+  return entries.some((d) => (d.kind === "changed" || d.kind === "removed") && (actions[d.id] || defaultAction(d.kind)) === "replace");
+}
+
+/** An import waiting for confirmation in the preview. */
+export type PendingImport = {
+  label: string;
+  entries: DiffEntry[];
+  actions: Record<string, RowAction>;
+  /** Extra lines shown above the diff, e.g. room conflicts per file. */
+  report: string[];
+};
@@ -0,0 +1,104 @@
+import { daySegment, nextDay, parseTime, type EventRow, type Room } from "./events";
+import { isActive } from "./conflicts";
+import { findRoom, type Catalog } from "./rooms";
+
+/** -------------------- Occupancy -------------------- */
+export type RoomOccupancy = {
+  room: Room;
+  openDays: number;
+  available: number; // opening hours in the range
+  booked: number;    // booked hours inside opening hours
+  outside: number;   // booked hours outside opening hours
+  occupancy: number; // booked / available, 0..1
+  idleDays: number;  // open days without any booking
+};
+
+export type Occupancy = {
+  rooms: RoomOccupancy[];
+  /** Booked hours per weekday (0 = Monday) and hour of day, summed over rooms. */
+  heat: number[][];
+  /** Busiest days by booked hours over all rooms. */
+  peaks: { date: string; hours: number }[];
+};
+
+const toMin = (t: string) => {
+  const [h, m] = t.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+/** Opening window of a room on a day in minutes from midnight, or null when it is closed. */
+export function openingOn(c: Catalog, room: Room, date: string) {
+  const spec = findRoom(c, room);
+  if (!spec || c.holidays.includes(date) || spec.closed.includes(date)) return null;
+  const h = spec.hours[parseTime(date, "00:00").getDay()];
+  if (!h) return null;
+  const from = toMin(h.from), to = toMin(h.to);
+  return to > from ? { from, to } : null;
+}
+
+/** Sorted, non-overlapping version of the intervals. */
+function union(list: [number, number][]) {
+  const out: [number, number][] = [];
+  for (const [s, e] of [...list].sort((a, b) => a[0] - b[0])) {
+    const last = out[out.length - 1];
+    if (last && s <= last[1]) last[1] = Math.max(last[1], e);
+    else out.push([s, e]);
+  }
+  return out;
+}
+
+const overlap = (a: [number, number], from: number, to: number) => Math.max(0, Math.min(a[1], to) - Math.max(a[0], from));
+
+/**
+ * Occupancy of `rooms` over the inclusive day range from..to. Active bookings (taken, booked, on hold)
+ * count toward every room they use; bookings overlapping in one room are only counted once.
+ */
+export function occupancy(events: EventRow[], c: Catalog, rooms: Room[], from: string, to: string): Occupancy {
+  // booked intervals per room and day, in minutes from midnight
+  const booked = new Map<string, [number, number][]>();
+  const wanted = new Set(rooms);
+  for (const e of events) {
+    if (!isActive(e) || !e.date) continue;
+    for (let d = e.date < from ? from : e.date; d <= (e.endDate || e.date) && d <= to; d = nextDay(d)) {
+      const seg = daySegment(e, d);
+      if (!seg) continue;
+      for (const r of e.rooms) {
+        if (!wanted.has(r)) continue;
+        const key = `${r}|${d}`;
+        booked.set(key, [...(booked.get(key) || []), [seg.from, seg.to]]);
+      }
+    }
+  }
+
+  const heat = Array.from({ length: 7 }, () => Array(24).fill(0) as number[]);
+  const perDay = new Map<string, number>();
+  const stats = rooms.map((room) => {
+    const s: RoomOccupancy = { room, openDays: 0, available: 0, booked: 0, outside: 0, occupancy: 0, idleDays: 0 };
+    for (let d = from; d <= to; d = nextDay(d)) {
+      const open = openingOn(c, room, d);
+      const slots = union(booked.get(`${room}|${d}`) || []);
+      const total = slots.reduce((a, x) => a + x[1] - x[0], 0);
+      const inside = open ? slots.reduce((a, x) => a + overlap(x, open.from, open.to), 0) : 0;
+      if (open) {
+        s.openDays++;
+        s.available += (open.to - open.from) / 60;
+        if (!total) s.idleDays++;
+      }
+      s.booked += inside / 60;
+      s.outside += (total - inside) / 60;
+      if (!total) continue;
+      perDay.set(d, (perDay.get(d) || 0) + total / 60);
+      const wd = (parseTime(d, "00:00").getDay() + 6) % 7;
+      for (const x of slots) {
+        for (let h = Math.floor(x[0] / 60); h < Math.min(24, Math.ceil(x[1] / 60)); h++) heat[wd][h] += overlap(x, h * 60, h * 60 + 60) / 60;
+      }
+    }
+    s.occupancy = s.available ? s.booked / s.available : 0;
+    return s;
+  });
+
+  const peaks = Array.from(perDay, ([date, hours]) => ({ date, hours }))
+    .sort((a, b) => b.hours - a.hours)
+    .slice(0, 5);
+  return { rooms: stats, heat, peaks };
+}
@@ -0,0 +1,62 @@
+import { fmtDate, type EventRow } from "./events";
+
+/** -------------------- Payments ledger -------------------- */
+export const PAYMENT_METHODS = ["Bank transfer", "Card", "Cash", "PayPal", "Other"] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const PAYMENT_KINDS = ["deposit", "payment", "refund"] as const;
+export type PaymentKind = (typeof PAYMENT_KINDS)[number];
+
+export type Payment = {
+  id: string;
+  date: string;   // yyyy-MM-dd
+  kind: PaymentKind;
+  amount: number; // always positive; refunds are subtracted
+  method: PaymentMethod;
+  note?: string;
+};
+
+export type Ledger = {
+  depositDue: number;     // € expected up front
+  depositDueDate: string; // yyyy-MM-dd, "" = no deadline
+  balanceDueDate: string; // yyyy-MM-dd, "" = the event date
+  payments: Payment[];
+};
+
+export const PAYMENT_STATES = ["unpaid", "partial", "paid", "overdue"] as const;
+export type PaymentState = (typeof PAYMENT_STATES)[number];
+
+export const emptyLedger = (): Ledger => ({ depositDue: 0, depositDueDate: "", balanceDueDate: "", payments: [] });
+
+export function newPayment(kind: PaymentKind = "payment"): Payment {
+  return { id: crypto.randomUUID(), date: fmtDate(new Date()), kind, amount: 0, method: "Bank transfer" };
+}
+
+/** Money in minus refunds. */
+export function receivedOf(e: EventRow) {
+  let sum = 0;
+  for (const p of e.ledger?.payments || []) sum += p.kind === "refund" ? -p.amount : p.amount;
+  return sum;
+}
+
+/** What a canceled event keeps of the money it received. */
+export const retainedOf = (e: EventRow) => (e.status === "Canceled" ? Math.max(0, receivedOf(e)) : 0);
+
+/**
+ * Payment position of an event worth `total` (for a canceled event: its cancellation fee). Events
+ * that owe nothing (Free, no price, canceled without a fee) are settled; a missed deposit deadline
+ * or an unpaid balance after its due date (the event date by default) is overdue.
+ */
+export function paymentStatus(e: EventRow, total: number, today = fmtDate(new Date())) {
+  const received = receivedOf(e);
+  const due = e.status === "Free" ? 0 : total;
+  const balance = Math.max(0, due - received);
+  const l = e.ledger;
+  let state: PaymentState = balance <= 0.005 ? "paid" : received <= 0 ? "unpaid" : "partial";
+  if (state !== "paid" && due > 0) {
+    const depositLate = e.status !== "Canceled" && !!l?.depositDueDate && l.depositDueDate < today && received < (l.depositDue || 0);
+    const balanceLate = (l?.balanceDueDate || e.date) < today;
+    if (depositLate || balanceLate) state = "overdue";
+  }
+  return { received, balance, state };
+}
@@ -0,0 +1,114 @@
+import { durationHrs, eventStart, type EventRow } from "./events";
+import { ratesOf, type Catalog } from "./rooms";
+
+/** -------------------- Pricing rules -------------------- */
+export type Season = { name: string; from: string; to: string; multiplier: number }; // from/to as MM-dd, may wrap the year end
+
+export type PricingRules = {
+  weekendMultiplier: number;
+  weekendDays: number[];     // 0 = Sunday … 6 = Saturday
+  seasons: Season[];
+  minHours: number;          // hourly bookings are charged at least this long
+  vat: { rental: number; food: number; drinks: number }; // percent
+  pricesIncludeVat: boolean; // entered amounts are gross
+};
+
+export type Discount = { kind: "percent" | "fixed"; value: number };
+
+/** Rental price stored on an event when it was priced, so later rule changes don't rewrite history. */
+export type PriceSnapshot = {
+  base: number;       // before multipliers and discount
+  basis: "fee" | "day" | "hourly";
+  hours: number;      // charged hours (after the minimum)
+  multiplier: number;
+  discount: number;   // € taken off
+  rental: number;     // final rental amount
+  computedAt: string; // ISO timestamp
+};
+
+export const DEFAULT_PRICING: PricingRules = {
+  weekendMultiplier: 1,
+  weekendDays: [0, 6],
+  seasons: [],
+  minHours: 0,
+  vat: { rental: 19, food: 7, drinks: 19 },
+  pricesIncludeVat: true,
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function seasonFor(rules: PricingRules, date: string) {
+  const md = date.slice(5, 10);
+  return rules.seasons.find((s) => (s.from <= s.to ? md >= s.from && md <= s.to : md >= s.from || md <= s.to));
+}
+
+/**
+ * Rental price of an event under `rules`. A fixed fee is taken as is (before discount); otherwise the
+ * day rate (per started day) or the hourly rate applies, falling back to the room catalog's rates,
+ * and weekend/seasonal multipliers are applied.
+ */
+export function priceEvent(e: EventRow, rules: PricingRules, catalog?: Catalog): PriceSnapshot {
+  const rooms = catalog ? ratesOf(catalog, e.rooms) : { hourly: 0, day: 0 };
+  const hours = durationHrs(e);
+  let basis: PriceSnapshot["basis"] = "hourly", base = 0, charged = Math.max(hours, rules.minHours || 0), multiplier = 1;
+  if (e.fee > 0) {
+    basis = "fee";
+    base = e.fee;
+    charged = hours;
+  } else {
+    const day = e.day || (e.rate ? 0 : rooms.day);
+    if (day > 0) {
+      basis = "day";
+      base = day * Math.max(1, Math.ceil(hours / 24));
+    } else {
+      base = (e.rate || rooms.hourly) * charged;
+    }
+    const start = eventStart(e);
+    if (rules.weekendDays.includes(start.getDay())) multiplier *= rules.weekendMultiplier || 1;
+    multiplier *= seasonFor(rules, e.date)?.multiplier || 1;
+  }
+  const gross = base * multiplier;
+  const d = e.discount;
+  const discount = !d || !d.value ? 0 : Math.min(gross, d.kind === "percent" ? (gross * d.value) / 100 : d.value);
+  return {
+    base: round2(base),
+    basis,
+    hours: round2(charged),
+    multiplier: round2(multiplier * 1000) / 1000,
+    discount: round2(discount),
+    rental: round2(gross - discount),
+    computedAt: new Date().toISOString(),
+  };
+}
+
+/** Splits amounts (entered net or gross, per the rules) into net, VAT and gross. */
+export function vatLines(amounts: { rental: number; food: number; drinks: number }, rules: PricingRules) {
+  let net = 0, gross = 0;
+  for (const key of ["rental", "food", "drinks"] as const) {
+    const rate = (rules.vat[key] || 0) / 100;
+    const v = amounts[key] || 0;
+    const n = rules.pricesIncludeVat ? v / (1 + rate) : v;
+    net += n;
+    gross += n * (1 + rate);
+  }
+  return { net, vat: gross - net, gross };
+}
+
+export function describeDiscount(d?: Discount) {
+  if (!d || !d.value) return "";
+  return d.kind === "percent" ? `${d.value}%` : `€ ${d.value}`;
+}
+
+/** Fills in missing fields of stored rules; null when there is nothing usable. */
+export function normalizePricing(raw: unknown): PricingRules | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Partial<PricingRules>;
+  const md = (v: unknown) => typeof v === "string" && /^\d{2}-\d{2}$/.test(v);
+  return {
+    ...DEFAULT_PRICING,
+    ...r,
+    weekendDays: Array.isArray(r.weekendDays) ? r.weekendDays.filter((d) => d >= 0 && d <= 6) : DEFAULT_PRICING.weekendDays,
+    seasons: (Array.isArray(r.seasons) ? r.seasons : []).filter((s) => s && md(s.from) && md(s.to)),
+    vat: { ...DEFAULT_PRICING.vat, ...r.vat },
+  };
+}
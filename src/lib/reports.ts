@@ -0,0 +1,130 @@
+import { durationHrs, yearShares, type EventRow, type Room } from "./events";
+import { cancellationFee, type CancelPolicy } from "./cancellation";
+import { paymentStatus, retainedOf } from "./payments";
+import { vatLines, type PricingRules } from "./pricing";
+
+/** -------------------- Money per event -------------------- */
+/** Rental of an event: the priced snapshot when there is one, else fee, day rate or hourly rate. */
+export function rentalPart(e: EventRow) {
+  if (e.status === "Free") return 0;
+  if (e.price) return e.price.rental;
+  if (e.fee > 0) return e.fee;
+  if (e.day > 0) return e.day;
+  return e.rate * durationHrs(e);
+}
+
+export function revenueFor(e: EventRow) {
+  const base = e.status === "Taken" ? rentalPart(e) : 0;
+  return base + (e.food + e.drinks);
+}
+
+/** fee earned on a cancellation: the policy fee, or more when the client's payments were kept */
+export function retainedFor(e: EventRow, policy: CancelPolicy) {
+  if (e.status !== "Canceled") return 0;
+  return Math.max(cancellationFee(e, rentalPart(e), policy).fee, retainedOf(e));
+}
+
+/** rental lost to a cancellation, after fees retained */
+export function lostFor(e: EventRow, policy: CancelPolicy) {
+  if (e.status !== "Canceled") return 0;
+  return Math.max(0, rentalPart(e) - retainedFor(e, policy));
+}
+
+/** what the client is billed, whatever the status */
+export function totalFor(e: EventRow) {
+  return rentalPart(e) + (e.food || 0) + (e.drinks || 0);
+}
+
+/** a canceled event still owes its cancellation fee */
+export const paymentOf = (e: EventRow, policy: CancelPolicy) =>
+  paymentStatus(e, e.status === "Canceled" ? cancellationFee(e, rentalPart(e), policy).fee : totalFor(e));
+
+/** revenueFor() split into net / VAT / gross per line */
+export function revenueVat(e: EventRow, rules: PricingRules) {
+  return vatLines({ rental: e.status === "Taken" ? rentalPart(e) : 0, food: e.food, drinks: e.drinks }, rules);
+}
+
+/** -------------------- Aggregations -------------------- */
+export type Kpis = ReturnType<typeof kpisOf>;
+
+/** the metric card figures over a list of events */
+export function kpisOf(rows: EventRow[], pricing: PricingRules, policy: CancelPolicy) {
+  let total = 0, taken = 0, booked = 0, canceled = 0, hold = 0, free = 0;
+  let revenue = 0, net = 0, lost = 0, guests = 0, received = 0, outstanding = 0, retained = 0;
+  for (const e of rows) {
+    total++;
+    if (e.status === "Taken") taken++;
+    if (e.status === "Booked") booked++;
+    if (e.status === "Canceled") canceled++;
+    if (e.status === "On hold") hold++;
+    if (e.status === "Free") free++;
+    revenue += revenueFor(e);
+    net += revenueVat(e, pricing).net;
+    lost += lostFor(e, policy);
+    const paid = paymentOf(e, policy);
+    received += paid.received;
+    // a hold isn't billed yet; a cancellation without a fee owes nothing (balance 0)
+    if (e.status !== "On hold") outstanding += paid.balance;
+    retained += retainedFor(e, policy);
+    if (e.status === "Taken") guests += (e.guests || 0);
+  }
+  return { total, taken, booked, canceled, hold, free, revenue, net, lost, guests, received, outstanding, retained };
+}
+
+export type RoomTotals = { events: number; revenue: number; retained: number; lost: number; guests: number };
+
+/** Totals per room; multi-room events split their money evenly. `rooms` are listed even when idle. */
+export function totalsByRoom(events: EventRow[], policy: CancelPolicy, rooms: Room[] = []) {
+  const map: Record<string, RoomTotals> = {};
+  rooms.forEach((r) => (map[r] = { events: 0, revenue: 0, retained: 0, lost: 0, guests: 0 }));
+  for (const e of events) {
+    const n = Math.max(1, e.rooms.length);
+    const rent = rentalPart(e);
+    const lost = lostFor(e, policy), retained = retainedFor(e, policy);
+    for (const r of e.rooms) {
+      if (!map[r]) map[r] = { events: 0, revenue: 0, retained: 0, lost: 0, guests: 0 };
+      map[r].events++;
+      map[r].revenue += (e.status === "Taken" ? rent / n : 0);
+      map[r].retained += retained / n;
+      map[r].lost += lost / n;
+      map[r].guests += e.status === "Taken" ? (e.guests || 0) : 0;
+    }
+  }
+  return map;
+}
+
+export type YearTotals = { events: number; taken: number; canceled: number; revenue: number; retained: number; lost: number; guests: number };
+
+/** Totals per year, oldest first. */
+export function totalsByYear(events: EventRow[], policy: CancelPolicy) {
+  const map: Record<string, YearTotals> = {};
+  const row = (y: string) => (map[y] ||= { events: 0, taken: 0, canceled: 0, revenue: 0, retained: 0, lost: 0, guests: 0 });
+  for (const e of events) {
+    // counts and guests go to the start year; money is split by the hours falling in each year
+    const y = e.date ? e.date.slice(0, 4) : "—";
+    row(y).events++;
+    if (e.status === "Taken") row(y).taken++;
+    if (e.status === "Canceled") row(y).canceled++;
+    if (e.status === "Taken") row(y).guests += e.guests || 0;
+    const revenue = revenueFor(e), lost = lostFor(e, policy), retained = retainedFor(e, policy);
+    for (const [year, share] of yearShares(e)) {
+      row(String(year)).revenue += revenue * share;
+      row(String(year)).retained += retained * share;
+      row(String(year)).lost += lost * share;
+    }
+  }
+  return Object.entries(map).sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+/** Canceled events per reason, biggest loss first. */
+export function totalsByReason(events: EventRow[], policy: CancelPolicy) {
+  const map: Record<string, { events: number; retained: number; lost: number }> = {};
+  for (const e of events) {
+    if (e.status !== "Canceled") continue;
+    const r = (map[e.cancelReason || "(no reason)"] ||= { events: 0, retained: 0, lost: 0 });
+    r.events++;
+    r.retained += retainedFor(e, policy);
+    r.lost += lostFor(e, policy);
+  }
+  return Object.entries(map).sort((a, b) => b[1].lost - a[1].lost);
+}
@@ -0,0 +1,141 @@
+import type { EventRow, Room } from "./events";
+import type { RoomBuffers } from "./conflicts";
+
+/** -------------------- Room catalog -------------------- */
+export const DEFAULT_ROOMS: Room[] = [
+  "Cafe",
+  "Hall",
+  "Backyard",
+  "Seminar room",
+  "Conferences room",
+  "Pavilion",
+];
+
+/** Opening window of one weekday ("24:00" = midnight at the end of the day); null = closed. */
+export type DayHours = { from: string; to: string } | null;
+/** Indexed like Date.getDay(): 0 = Sunday … 6 = Saturday. */
+export type WeekHours = DayHours[];
+
+export const DEFAULT_HOURS: WeekHours = Array.from({ length: 7 }, () => ({ from: "08:00", to: "24:00" }));
+
+export type RoomSpec = {
+  name: Room;
+  seated: number;    // capacity, 0 = unknown
+  standing: number;  // capacity, 0 = unknown
+  hourly: number;    // default hourly rate €
+  day: number;       // default day rate €
+  setup: number;     // minutes kept free before a booking
+  teardown: number;  // minutes kept free after a booking
+  hours: WeekHours;  // opening hours per weekday
+  closed: string[];  // yyyy-MM-dd days this room alone is closed
+  archived?: boolean;
+};
+
+/** A named set of rooms booked together, e.g. "Entire venue". */
+export type RoomCombo = { name: string; rooms: Room[] };
+
+/** `holidays`: yyyy-MM-dd days the whole venue is closed. */
+export type Catalog = { rooms: RoomSpec[]; combos: RoomCombo[]; holidays: string[] };
+
+export const newRoom = (name: Room): RoomSpec => ({
+  name, seated: 0, standing: 0, hourly: 0, day: 0, setup: 0, teardown: 0, hours: DEFAULT_HOURS.map((h) => ({ ...h! })), closed: [],
+});
+
+export function defaultCatalog(buffers: RoomBuffers = {}): Catalog {
+  return {
+    rooms: DEFAULT_ROOMS.map((name) => ({ ...newRoom(name), ...buffers[name] })),
+    combos: [
+      { name: "Entire venue", rooms: [...DEFAULT_ROOMS] },
+      { name: "Cafe & Hall", rooms: ["Cafe", "Hall"] },
+    ],
+    holidays: [],
+  };
+}
+
+export const roomNames = (c: Catalog) => c.rooms.map((r) => r.name);
+export const activeRooms = (c: Catalog) => c.rooms.filter((r) => !r.archived);
+export const findRoom = (c: Catalog, name: Room) => c.rooms.find((r) => r.name === name);
+
+/** `rooms` with `from` replaced by `to`, e.g. after dragging a booking to another room's lane. */
+export function swapRoom(rooms: Room[], from: Room, to: Room) {
+  return Array.from(new Set(rooms.map((r) => (r === from ? to : r))));
+}
+
+export function buffersOf(c: Catalog): RoomBuffers {
+  const out: RoomBuffers = {};
+  for (const r of c.rooms) out[r.name] = { setup: r.setup, teardown: r.teardown };
+  return out;
+}
+
+/** Summed capacity of the rooms; a room with an unknown (0) capacity makes the total unknown. */
+export function capacityOf(c: Catalog, rooms: Room[]) {
+  const specs = rooms.map((r) => findRoom(c, r));
+  const sum = (key: "seated" | "standing") =>
+    specs.length && specs.every((s) => s && s[key] > 0) ? specs.reduce((a, s) => a + s![key], 0) : 0;
+  return { seated: sum("seated"), standing: sum("standing") };
+}
+
+export function ratesOf(c: Catalog, rooms: Room[]) {
+  let hourly = 0, day = 0;
+  for (const r of rooms) {
+    const s = findRoom(c, r);
+    hourly += s?.hourly || 0;
+    day += s?.day || 0;
+  }
+  return { hourly, day };
+}
+
+export function capacityWarning(c: Catalog, rooms: Room[], guests: number) {
+  const { seated, standing } = capacityOf(c, rooms);
+  if (!guests) return null;
+  if (standing && guests > standing) return `${guests} guests exceed the standing capacity of ${standing}`;
+  if (seated && guests > seated) return `${guests} guests exceed the seated capacity of ${seated}`;
+  return null;
+}
+
+/** Renames a room in the catalog, its combinations and every event that uses it. */
+export function renameRoom(c: Catalog, events: EventRow[], from: Room, to: Room) {
+  const swap = (r: Room) => (r === from ? to : r);
+  return {
+    catalog: {
+      ...c,
+      rooms: c.rooms.map((r) => (r.name === from ? { ...r, name: to } : r)),
+      combos: c.combos.map((k) => ({ ...k, rooms: k.rooms.map(swap) })),
+    },
+    events: events.map((e) => {
+      const row = e.rooms.includes(from) ? { ...e, rooms: e.rooms.map(swap) } : e;
+      // occurrences of a series moved to other rooms
+      const moved = Object.entries(row.series?.overrides || {}).filter(([, o]) => o.rooms?.includes(from));
+      if (!moved.length) return row;
+      const overrides = { ...row.series!.overrides, ...Object.fromEntries(moved.map(([d, o]) => [d, { ...o, rooms: o.rooms!.map(swap) }])) };
+      return { ...row, series: { ...row.series!, overrides } };
+    }),
+  };
+}
+
+/** Fills in missing fields of a stored catalog; falls back to the defaults when it is unusable. */
+export function normalizeCatalog(raw: unknown): Catalog | null {
+  if (!raw || typeof raw !== "object") return null;
+  const c = raw as Partial<Catalog>;
+  if (!Array.isArray(c.rooms)) return null;
+  const rooms = c.rooms
+    .filter((r) => r && typeof r.name === "string" && r.name.trim())
+    .map((r) => {
+      const base = newRoom(r.name.trim());
+      const hours = Array.isArray(r.hours) && r.hours.length === 7 ? r.hours.map((h) => (h && h.from && h.to ? { from: h.from, to: h.to } : null)) : base.hours;
+      return { ...base, ...r, name: base.name, hours, closed: dates(r.closed) };
+    });
+  const names = new Set(rooms.map((r) => r.name));
+  const combos = (Array.isArray(c.combos) ? c.combos : [])
+    .filter((k) => k && typeof k.name === "string" && Array.isArray(k.rooms))
+    .map((k) => ({ name: k.name, rooms: k.rooms.filter((r) => names.has(r)) }));
+  return { rooms, combos, holidays: dates(c.holidays) };
+}
+
+function dates(v: unknown) {
+  return Array.isArray(v) ? v.filter((d): d is string => typeof d === "string" && /^\d{4}-\d{2}-\d{2}$/.test(d)).sort() : [];
+}
+
+/** "2025-12-24, 2025-12-25" ⇄ list of days, for the settings inputs. */
+export const formatDays = (days: string[]) => days.join(", ");
+export const parseDays = (text: string) => dates(text.split(/[\s,;]+/));
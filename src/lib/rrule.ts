@@ -0,0 +1,166 @@
+/** -------------------- Recurrence rules (RFC 5545 RRULE subset) -------------------- */
+/**
+ * Supports FREQ=DAILY|WEEKLY|MONTHLY|YEARLY with INTERVAL, COUNT, UNTIL, BYDAY (incl. ordinals
+ * like 2TU / -1FR), BYMONTHDAY, BYMONTH, BYSETPOS and WKST. Expansion works on calendar dates;
+ * every occurrence keeps the time of day of the first one. BYHOUR/BYMINUTE/BYWEEKNO/BYYEARDAY
+ * are ignored.
+ */
+export type Freq = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+export const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+
+/** Calendar date, month 1–12. */
+export type YMD = { y: number; m: number; d: number };
+
+export type RRule = {
+  freq: Freq;
+  interval: number;
+  count?: number;
+  /** Raw UNTIL value; its meaning depends on the zone of the event, so callers interpret it. */
+  until?: string;
+  /** Weekday 0=SU…6=SA, with an optional ordinal (n=2 → second, n=-1 → last). */
+  byDay?: { n: number; wd: number }[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  wkst: number;
+};
+
+const DAY_MS = 86_400_000;
+const toMs = (d: YMD) => Date.UTC(d.y, d.m - 1, d.d);
+const fromMs = (ms: number): YMD => {
+  const t = new Date(ms);
+  return { y: t.getUTCFullYear(), m: t.getUTCMonth() + 1, d: t.getUTCDate() };
+};
+const daysIn = (y: number, m: number) => new Date(Date.UTC(y, m, 0)).getUTCDate();
+const weekday = (d: YMD) => new Date(toMs(d)).getUTCDay();
+export const ymdKey = (d: YMD) => `${d.y}-${String(d.m).padStart(2, "0")}-${String(d.d).padStart(2, "0")}`;
+
+const ints = (v: string) => v.split(",").map((x) => parseInt(x, 10)).filter((x) => !isNaN(x));
+
+export function parseRRule(value: string): RRule | null {
+  const parts: Record<string, string> = {};
+  for (const kv of value.split(";")) {
+    const [k, v] = kv.split("=");
+    if (k && v !== undefined) parts[k.trim().toUpperCase()] = v.trim().toUpperCase();
+  }
+  const freq = parts.FREQ as Freq;
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) return null;
+  const wd = (s: string) => WEEKDAYS.indexOf(s as (typeof WEEKDAYS)[number]);
+  const rule: RRule = {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || "1", 10) || 1),
+    wkst: parts.WKST && wd(parts.WKST) >= 0 ? wd(parts.WKST) : 1,
+  };
+  if (parts.COUNT) rule.count = Math.max(0, parseInt(parts.COUNT, 10) || 0);
+  if (parts.UNTIL) rule.until = parts.UNTIL;
+  if (parts.BYDAY) {
+    rule.byDay = parts.BYDAY.split(",")
+      .map((s) => s.match(/^([+-]?\d{1,2})?([A-Z]{2})$/))
+      .filter((m): m is RegExpMatchArray => !!m && wd(m[2]) >= 0)
+      .map((m) => ({ n: m[1] ? parseInt(m[1], 10) : 0, wd: wd(m[2]) }));
+  }
+  if (parts.BYMONTHDAY) rule.byMonthDay = ints(parts.BYMONTHDAY);
+  if (parts.BYMONTH) rule.byMonth = ints(parts.BYMONTH);
+  if (parts.BYSETPOS) rule.bySetPos = ints(parts.BYSETPOS);
+  return rule;
+}
+
+/** Days of month y/m matching BYMONTHDAY and BYDAY (ordinals relative to the month). */
+function monthDays(y: number, m: number, rule: RRule, fallbackDay: number) {
+  const n = daysIn(y, m);
+  let set: number[] | null = null;
+  if (rule.byMonthDay?.length) {
+    set = rule.byMonthDay.map((v) => (v > 0 ? v : n + 1 + v)).filter((v) => v >= 1 && v <= n);
+  }
+  if (rule.byDay?.length) {
+    const hits = new Set<number>();
+    for (const { n: ord, wd } of rule.byDay) {
+      const all: number[] = [];
+      for (let d = 1; d <= n; d++) if (weekday({ y, m, d }) === wd) all.push(d);
+      if (!ord) all.forEach((d) => hits.add(d));
+      else {
+        const pick = ord > 0 ? all[ord - 1] : all[all.length + ord];
+        if (pick) hits.add(pick);
+      }
+    }
+    set = set ? set.filter((d) => hits.has(d)) : Array.from(hits);
+  }
+  if (!set) set = fallbackDay <= n ? [fallbackDay] : [];
+  return Array.from(new Set(set)).sort((a, b) => a - b).map((d) => ({ y, m, d }));
+}
+
+/** Days of year y matching BYDAY with ordinals relative to the whole year (YEARLY without BYMONTH). */
+function yearWeekdays(y: number, rule: RRule) {
+  const hits = new Map<number, YMD>();
+  const first = Date.UTC(y, 0, 1);
+  const days = Array.from({ length: (Date.UTC(y + 1, 0, 1) - first) / DAY_MS }, (_, i) => fromMs(first + i * DAY_MS));
+  for (const { n, wd } of rule.byDay || []) {
+    const all = days.filter((d) => weekday(d) === wd);
+    const picked = !n ? all : [n > 0 ? all[n - 1] : all[all.length + n]].filter(Boolean);
+    picked.forEach((d) => hits.set(toMs(d), d));
+  }
+  let out = Array.from(hits.values());
+  if (rule.byMonthDay?.length) out = out.filter((d) => monthDays(d.y, d.m, { ...rule, byDay: undefined }, 0).some((x) => x.d === d.d));
+  return out.sort((a, b) => toMs(a) - toMs(b));
+}
+
+function candidates(rule: RRule, start: YMD, k: number): YMD[] {
+  const step = k * rule.interval;
+  const inMonth = (d: YMD) => !rule.byMonth?.length || rule.byMonth.includes(d.m);
+  switch (rule.freq) {
+    case "DAILY": {
+      const d = fromMs(toMs(start) + step * DAY_MS);
+      const dayOk = !rule.byDay?.length || rule.byDay.some((b) => b.wd === weekday(d));
+      const mdOk = !rule.byMonthDay?.length || monthDays(d.y, d.m, { ...rule, byDay: undefined }, 0).some((x) => x.d === d.d);
+      return inMonth(d) && dayOk && mdOk ? [d] : [];
+    }
+    case "WEEKLY": {
+      const back = (weekday(start) - rule.wkst + 7) % 7;
+      const weekStart = toMs(start) - back * DAY_MS + step * 7 * DAY_MS;
+      const wds = rule.byDay?.length ? rule.byDay.map((b) => b.wd) : [weekday(start)];
+      return Array.from({ length: 7 }, (_, i) => fromMs(weekStart + i * DAY_MS))
+        .filter((d) => wds.includes(weekday(d)) && inMonth(d));
+    }
+    case "MONTHLY": {
+      const idx = start.y * 12 + (start.m - 1) + step;
+      const y = Math.floor(idx / 12), m = (idx % 12) + 1;
+      return inMonth({ y, m, d: 1 }) ? monthDays(y, m, rule, start.d) : [];
+    }
+    case "YEARLY": {
+      const y = start.y + step;
+      if (rule.byMonth?.length) return rule.byMonth.slice().sort((a, b) => a - b).flatMap((m) => monthDays(y, m, rule, start.d));
+      if (rule.byDay?.length) return yearWeekdays(y, rule);
+      if (rule.byMonthDay?.length) return Array.from({ length: 12 }, (_, i) => monthDays(y, i + 1, rule, start.d)).flat();
+      return monthDays(y, start.m, rule, start.d);
+    }
+  }
+}
+
+/**
+ * Occurrence dates in order, starting with `start` itself: DTSTART is always the first instance and
+ * counts towards COUNT, even when the rule wouldn't generate it (RFC 5545 §3.8.5.3). Honours COUNT;
+ * UNTIL and any window end are left to the caller, who stops iterating. Gives up after `maxPeriods`
+ * periods so rules that can never match (e.g. BYMONTHDAY=31;BYMONTH=2) terminate.
+ */
+export function* occurrences(start: YMD, rule: RRule, maxPeriods = 20_000): Generator<YMD> {
+  const startMs = toMs(start);
+  if (rule.count !== undefined && rule.count < 1) return;
+  yield start;
+  let emitted = 1;
+  for (let k = 0; k < maxPeriods; k++) {
+    let list = candidates(rule, start, k);
+    if (rule.bySetPos?.length && list.length) {
+      const all = list;
+      list = rule.bySetPos
+        .map((p) => (p > 0 ? all[p - 1] : all[all.length + p]))
+        .filter(Boolean)
+        .sort((a, b) => toMs(a) - toMs(b));
+    }
+    for (const d of list) {
+      if (toMs(d) <= startMs) continue;
+      if (rule.count !== undefined && emitted >= rule.count) return;
+      emitted++;
+      yield d;
+    }
+  }
+}
@@ -0,0 +1,393 @@
+import { STATUSES, inferEndDate, type EventRow, type Room, type Status } from "./events";
+import { CATERING_UNITS, cateringTotals, type CateringLine } from "./catering";
+import { PAYMENT_KINDS, PAYMENT_METHODS, type Ledger, type Payment } from "./payments";
+import type { Discount, PriceSnapshot } from "./pricing";
+import { FREQUENCIES, type Series } from "./series";
+import type { StatusChange } from "./workflow";
+
+/** -------------------- Versions -------------------- */
+/**
+ * Shape history of stored/exported events:
+ *   1 – legacy index.html page (`events` key): single `room`, no day rate / food / drinks
+ *   3 – `events_tracker_v3`: `rooms` array, single date
+ *   4 – `endDate` for overnight and multi-day events
+ *   5 – optional `discount` and `price` snapshot from the pricing rules
+ *   6 – optional payments `ledger`
+ *   7 – optional `canceledOn` date for the cancellation policy
+ *   8 – optional `holdUntil` expiry and status `history`
+ *   9 – optional `clientId` linking the event to a client record
+ *  10 – optional `catering` line items behind `food` / `drinks`
+ *  11 – optional `series` rule making the row the first of a recurring series
+ * Bump SCHEMA_VERSION and append a migration whenever EventRow changes shape.
+ */
+export const SCHEMA_VERSION = 11;
+
+type Raw = Record<string, unknown>;
+type Migration = { from: number; to: number; up: (row: Raw) => Raw };
+
+const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    to: 3,
+    up: ({ room, ...r }) => ({ day: 0, food: 0, drinks: 0, ...r, rooms: r.rooms ?? (room ? [room] : []) }),
+  },
+  {
+    from: 3,
+    to: 4,
+    // an end time before the start meant the event ran past midnight
+    up: (r) => ({ ...r, endDate: r.endDate || inferEndDate(String(r.date ?? ""), String(r.start ?? ""), String(r.end ?? "")) }),
+  },
+  {
+    from: 4,
+    to: 5,
+    // nothing to convert: rows without a price snapshot keep being priced from fee/day/rate
+    up: (r) => r,
+  },
+  {
+    from: 5,
+    to: 6,
+    // events without a ledger simply have no payments recorded yet
+    up: (r) => r,
+  },
+  {
+    from: 6,
+    to: 7,
+    // cancellations without a date keep counting as fully lost (no fee)
+    up: (r) => r,
+  },
+  {
+    from: 7,
+    to: 8,
+    // existing holds never expire and start without a history
+    up: (r) => r,
+  },
+  {
+    from: 8,
+    to: 9,
+    // older events have no client; their name keeps saying who booked
+    up: (r) => r,
+  },
+  {
+    from: 9,
+    to: 10,
+    // flat food/drinks amounts keep working; they show as a single custom line
+    up: (r) => r,
+  },
+  {
+    from: 10,
+    to: 11,
+    // every existing event is a one-off
+    up: (r) => r,
+  },
+];
+
+/** Best guess for rows that arrive without an envelope (bare arrays, old storage keys). */
+export function detectVersion(row: Raw) {
+  if (!("rooms" in row) && "room" in row) return 1;
+  if (!("endDate" in row)) return 3;
+  return SCHEMA_VERSION;
+}
+
+export function migrateRow(row: Raw, from: number) {
+  let out = row, v = from;
+  while (v < SCHEMA_VERSION) {
+    const step = MIGRATIONS.find((m) => m.from === v) ?? MIGRATIONS.find((m) => m.from > v);
+    if (!step) break;
+    out = step.up(out);
+    v = step.to;
+  }
+  return out;
+}
+
+/** -------------------- Validation -------------------- */
+export type RowIssue = { index: number; id?: string; name?: string; errors: string[]; warnings: string[] };
+export type Validated = { rows: EventRow[]; issues: RowIssue[] };
+
+const str = (v: unknown) => (v === null || v === undefined ? "" : String(v)).trim();
+
+function num(v: unknown, field: string, warn: string[]) {
+  if (v === null || v === undefined || v === "") return 0;
+  if (typeof v === "number") return isFinite(v) ? v : 0;
+  const n = Number(String(v).trim().replace(/\s/g, "").replace(",", "."));
+  if (isNaN(n)) {
+    warn.push(`${field}: "${v}" is not a number, using 0`);
+    return 0;
+  }
+  return n;
+}
+
+function date(v: unknown) {
+  const s = str(v);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
+  const m = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:T.*)?$/);
+  return m ? `${m[1]}-${m[2].padStart(2, "0")}-${m[3].padStart(2, "0")}` : "";
+}
+
+function time(v: unknown) {
+  const m = str(v).match(/^(\d{1,2})[:.](\d{2})(?::\d{2})?$/);
+  if (!m || +m[1] > 24 || +m[2] > 59) return "";
+  return `${m[1].padStart(2, "0")}:${m[2]}`;
+}
+
+function status(v: unknown): Status | undefined {
+  const s = str(v).toLowerCase().replace(/\s+/g, " ");
+  if (s === "cancelled") return "Canceled";
+  if (s === "onhold" || s === "on-hold") return "On hold";
+  return STATUSES.find((x) => x.toLowerCase() === s);
+}
+
+/** `{kind, value}` or the `percent:10` / `fixed:50` form used in .ics files. */
+export function readDiscount(v: unknown): Discount | undefined {
+  const [kind, value] = typeof v === "string" ? v.split(":") : [(v as Raw)?.kind, (v as Raw)?.value];
+  const n = Number(value);
+  if ((kind !== "percent" && kind !== "fixed") || !isFinite(n) || n <= 0) return undefined;
+  return { kind, value: kind === "percent" ? Math.min(100, n) : n };
+}
+
+/** A stored price snapshot (object or JSON text); anything without a usable rental is dropped. */
+export function readPrice(v: unknown): PriceSnapshot | undefined {
+  let p = v;
+  if (typeof p === "string") { try { p = JSON.parse(p); } catch { return undefined; } }
+  if (!p || typeof p !== "object") return undefined;
+  const r = p as Raw;
+  const n = (x: unknown) => (isFinite(Number(x)) ? Number(x) : 0);
+  if (r.rental === undefined || r.rental === null || !isFinite(Number(r.rental))) return undefined;
+  const basis = r.basis === "fee" || r.basis === "day" ? r.basis : "hourly";
+  return {
+    base: n(r.base), basis, hours: n(r.hours), multiplier: n(r.multiplier) || 1,
+    discount: n(r.discount), rental: n(r.rental), computedAt: str(r.computedAt),
+  };
+}
+
+/** A status history (list or JSON text); entries without a time or a known status are dropped with a warning. */
+export function readHistory(v: unknown, warn: string[] = []): StatusChange[] | undefined {
+  let h = v;
+  if (typeof h === "string") { try { h = JSON.parse(h); } catch { return undefined; } }
+  if (!Array.isArray(h)) return undefined;
+  const out: StatusChange[] = [];
+  for (const raw of h) {
+    const c = (raw || {}) as Raw;
+    const to = status(c.to), from = status(c.from);
+    if (!to || isNaN(Date.parse(str(c.at)))) {
+      warn.push(`status change ${JSON.stringify(raw)} has no time or status, dropped`);
+      continue;
+    }
+    out.push({ at: str(c.at), ...(from ? { from } : {}), to, ...(str(c.comment) ? { comment: str(c.comment) } : {}) });
+  }
+  return out.length ? out : undefined;
+}
+
+/** Catering lines (list or JSON text); lines without a name or a usable price are dropped with a warning. */
+export function readCatering(v: unknown, warn: string[] = []): CateringLine[] | undefined {
+  let c = v;
+  if (typeof c === "string") { try { c = JSON.parse(c); } catch { return undefined; } }
+  if (!Array.isArray(c)) return undefined;
+  const out: CateringLine[] = [];
+  for (const raw of c) {
+    const l = (raw || {}) as Raw;
+    const price = Number(l.price), cost = Number(l.cost), qty = Number(l.qty);
+    if (!str(l.name) || !isFinite(price) || price < 0) {
+      warn.push(`catering line ${JSON.stringify(raw)} has no name or price, dropped`);
+      continue;
+    }
+    out.push({
+      id: str(l.id) || crypto.randomUUID(),
+      ...(str(l.itemId) ? { itemId: str(l.itemId) } : {}),
+      name: str(l.name),
+      kind: l.kind === "drinks" ? "drinks" : "food",
+      unit: CATERING_UNITS.find((u) => u === l.unit) || "unit",
+      price,
+      ...(l.cost !== undefined && l.cost !== null && isFinite(cost) && cost >= 0 ? { cost } : {}),
+      ...(l.qty !== undefined && l.qty !== null && isFinite(qty) && qty >= 0 ? { qty } : {}),
+    });
+  }
+  return out.length ? out : undefined;
+}
+
+/**
+ * A series rule (object or JSON text) for the series row `row`. Unusable skips and overrides are
+ * dropped with a warning; overrides are checked like whole rows.
+ */
+export function readSeries(v: unknown, row: EventRow, warn: string[] = []): Series | undefined {
+  let s = v;
+  if (typeof s === "string") { try { s = JSON.parse(s); } catch { return undefined; } }
+  if (!s || typeof s !== "object") return undefined;
+  const r = s as Raw;
+  const freq = FREQUENCIES.find((f) => f === r.freq);
+  if (!freq) {
+    warn.push(`series frequency "${str(r.freq)}" is unknown, saved as a single event`);
+    return undefined;
+  }
+  const weekdays = (Array.isArray(r.weekdays) ? r.weekdays : []).map(Number).filter((d) => Number.isInteger(d) && d >= 0 && d <= 6);
+  const count = Math.round(Number(r.count));
+  const out: Series = {
+    freq,
+    interval: Math.max(1, Math.round(Number(r.interval)) || 1),
+    ...(freq === "weekly" && weekdays.length ? { weekdays: [...new Set(weekdays)] } : {}),
+    ...(date(r.until) ? { until: date(r.until) } : {}),
+    ...(count > 0 ? { count } : {}),
+  };
+  const skip = (Array.isArray(r.skip) ? r.skip : []).map(date).filter(Boolean);
+  if (skip.length) out.skip = [...new Set(skip)].sort();
+  const overrides: Record<string, Partial<EventRow>> = {};
+  for (const [key, raw] of Object.entries(r.overrides && typeof r.overrides === "object" ? (r.overrides as Raw) : {})) {
+    const ov = (raw || {}) as Raw;
+    const checked = date(key) ? validateRow({ ...row, series: undefined, ...ov }, 0).row : undefined;
+    if (!checked) {
+      warn.push(`change to the occurrence of ${key} is unreadable, dropped`);
+      continue;
+    }
+    overrides[key] = Object.fromEntries(Object.keys(ov).filter((k) => k in checked && k !== "id").map((k) => [k, checked[k as keyof EventRow]]));
+  }
+  if (Object.keys(overrides).length) out.overrides = overrides;
+  return out;
+}
+
+/** A payments ledger (object or JSON text); unusable payments are dropped with a warning. */
+export function readLedger(v: unknown, warn: string[] = []): Ledger | undefined {
+  let l = v;
+  if (typeof l === "string") { try { l = JSON.parse(l); } catch { return undefined; } }
+  if (!l || typeof l !== "object") return undefined;
+  const r = l as Raw;
+  const payments: Payment[] = [];
+  for (const raw of Array.isArray(r.payments) ? r.payments : []) {
+    const p = (raw || {}) as Raw;
+    const amount = Math.abs(Number(p.amount));
+    const kind = PAYMENT_KINDS.find((k) => k === p.kind) || "payment";
+    if (!date(p.date) || !isFinite(amount) || !amount) {
+      warn.push(`payment ${JSON.stringify(raw)} has no date or amount, dropped`);
+      continue;
+    }
+    payments.push({
+      id: str(p.id) || crypto.randomUUID(),
+      date: date(p.date),
+      kind,
+      amount,
+      method: PAYMENT_METHODS.find((m) => m === p.method) || "Other",
+      ...(str(p.note) ? { note: str(p.note) } : {}),
+    });
+  }
+  const depositDue = Math.max(0, Number(r.depositDue) || 0);
+  if (!payments.length && !depositDue && !date(r.depositDueDate) && !date(r.balanceDueDate)) return undefined;
+  return { depositDue, depositDueDate: date(r.depositDueDate), balanceDueDate: date(r.balanceDueDate), payments };
+}
+
+/**
+ * Coerces one untrusted row into an EventRow. Rows with errors are rejected, warnings are fixed up.
+ * With `known` rooms, other room names are dropped; without it any name is kept.
+ */
+export function validateRow(input: unknown, index: number, known?: Room[]): { row?: EventRow; issue?: RowIssue } {
+  const errors: string[] = [], warnings: string[] = [];
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { issue: { index, errors: ["not an object"], warnings } };
+  }
+  const r = migrateRow(input as Raw, detectVersion(input as Raw));
+  const name = str(r.name);
+  const d = date(r.date);
+  const start = time(r.start), end = time(r.end);
+  if (!name) errors.push("name is missing");
+  if (!d) errors.push(`date "${str(r.date)}" is not yyyy-MM-dd`);
+  if (!start) errors.push(`start "${str(r.start)}" is not HH:mm`);
+  if (!end) errors.push(`end "${str(r.end)}" is not HH:mm`);
+  const st = status(r.status);
+  if (!st) errors.push(`status "${str(r.status)}" is not one of ${STATUSES.join(", ")}`);
+
+  const rawRooms = Array.isArray(r.rooms) ? r.rooms.map(str) : str(r.rooms).split(/[,;|]/).map((x) => x.trim());
+  const rooms: Room[] = [];
+  for (const label of rawRooms.filter(Boolean)) {
+    const room = known ? known.find((x) => x.toLowerCase() === label.toLowerCase()) : label;
+    if (room) { if (!rooms.includes(room)) rooms.push(room); }
+    else warnings.push(`unknown room "${label}" dropped`);
+  }
+  if (!Array.isArray(r.rooms) && r.rooms !== undefined && r.rooms !== "") warnings.push("rooms was not a list");
+
+  let endDate = date(r.endDate);
+  if (!endDate || endDate < d) endDate = inferEndDate(d, start, end);
+
+  const row: EventRow = {
+    id: str(r.id) || crypto.randomUUID(),
+    name,
+    date: d,
+    endDate,
+    start,
+    end,
+    rooms,
+    status: st!,
+    guests: Math.max(0, Math.round(num(r.guests, "guests", warnings))),
+    rate: num(r.rate, "rate", warnings),
+    day: num(r.day, "day", warnings),
+    fee: num(r.fee, "fee", warnings),
+    food: num(r.food, "food", warnings),
+    drinks: num(r.drinks, "drinks", warnings),
+    cancelReason: str(r.cancelReason),
+    notes: str(r.notes),
+  };
+  if (str(r.source)) row.source = str(r.source);
+  if (date(r.canceledOn)) row.canceledOn = date(r.canceledOn);
+  else if (str(r.canceledOn)) warnings.push(`canceledOn "${str(r.canceledOn)}" is not yyyy-MM-dd, dropped`);
+  const discount = readDiscount(r.discount), price = readPrice(r.price);
+  if (discount) row.discount = discount;
+  if (price) row.price = price;
+  if (r.price && !price) warnings.push("price snapshot is unreadable, repriced from fee/day/rate");
+  const ledger = readLedger(r.ledger, warnings);
+  if (ledger) row.ledger = ledger;
+  if (st === "On hold" && date(r.holdUntil)) row.holdUntil = date(r.holdUntil);
+  else if (st === "On hold" && str(r.holdUntil)) warnings.push(`holdUntil "${str(r.holdUntil)}" is not yyyy-MM-dd, dropped`);
+  const history = readHistory(r.history, warnings);
+  if (history) row.history = history;
+  if (str(r.clientId)) row.clientId = str(r.clientId);
+  const catering = readCatering(r.catering, warnings);
+  if (catering) {
+    // the lines are the truth; the totals follow them
+    const t = cateringTotals({ ...row, catering });
+    Object.assign(row, { catering, food: t.food, drinks: t.drinks });
+  }
+  const series = r.series ? readSeries(r.series, row, warnings) : undefined;
+  if (series) row.series = series;
+  const issue = errors.length || warnings.length
+    ? { index, id: str(r.id) || undefined, name: name || undefined, errors, warnings }
+    : undefined;
+  return errors.length ? { issue } : { row, issue };
+}
+
+export function validateRows(input: unknown[], known?: Room[]): Validated {
+  const rows: EventRow[] = [], issues: RowIssue[] = [];
+  input.forEach((raw, i) => {
+    const { row, issue } = validateRow(raw, i, known);
+    if (row) rows.push(row);
+    if (issue) issues.push(issue);
+  });
+  return { rows, issues };
+}
+
+export function describeIssue(i: RowIssue) {
+  if (i.index < 0) return `file: ${i.errors.join("; ")}`;
+  const who = `#${i.index + 1}${i.name ? ` "${i.name}"` : ""}${i.id ? ` (${i.id})` : ""}`;
+  const what = [...i.errors.map((e) => `✗ ${e}`), ...i.warnings.map((w) => `! ${w}`)].join("; ");
+  return `${who}: ${what}`;
+}
+
+/** -------------------- Envelope -------------------- */
+export type Envelope = { version: number; exportedAt: string; events: EventRow[] };
+
+export function toEnvelope(events: EventRow[]): Envelope {
+  return { version: SCHEMA_VERSION, exportedAt: new Date().toISOString(), events };
+}
+
+/**
+ * Accepts an envelope or a bare array (older exports) and returns validated rows at the current
+ * version. Rows inside an envelope are migrated from its version; bare rows are detected one by one.
+ */
+export function readEnvelope(data: unknown, known?: Room[]): Validated {
+  if (Array.isArray(data)) return validateRows(data, known);
+  if (data && typeof data === "object" && Array.isArray((data as Raw).events)) {
+    const env = data as { version?: unknown; events: unknown[] };
+    const v = Number(env.version) || 1;
+    if (v > SCHEMA_VERSION) {
+      return { rows: [], issues: [{ index: -1, errors: [`file version ${v} is newer than this app (${SCHEMA_VERSION})`], warnings: [] }] };
+    }
+    const upgraded = env.events.map((e) => (e && typeof e === "object" ? migrateRow(e as Raw, v) : e));
+    return validateRows(upgraded, known);
+  }
+  return { rows: [], issues: [{ index: -1, errors: ["expected an events array or an export envelope"], warnings: [] }] };
+}
@@ -0,0 +1,275 @@
+import { fmtDate, moveEvent, overlapsRange, parseTime, type EventRow } from "./events";
+import type { PriceSnapshot } from "./pricing";
+import { occurrences, ymdKey, type RRule } from "./rrule";
+
+/** -------------------- Recurring series -------------------- */
+/**
+ * A recurring event is stored once: the row of its first occurrence carries the rule in `series`.
+ * Occurrences are generated on demand for a date range; skipped dates and per-occurrence changes
+ * live in the rule, keyed by the date an occurrence was generated for, so they survive edits of
+ * the series as a whole.
+ */
+export const FREQUENCIES = ["daily", "weekly", "monthly"] as const;
+export type Frequency = (typeof FREQUENCIES)[number];
+
+export type Series = {
+  freq: Frequency;
+  interval: number;    // every n days / weeks / months
+  weekdays?: number[]; // weekly only, 0=Sun…6=Sat; the weekday of the first date when missing
+  until?: string;      // yyyy-MM-dd, no occurrences after this day
+  count?: number;      // occurrences in total, skipped ones included (as RRULE COUNT)
+  skip?: string[];     // exceptions: occurrence dates taken out of the series
+  overrides?: Record<string, Partial<EventRow>>; // fields of single occurrences that differ from the series
+};
+
+/** Set on expanded rows only: the series row and the date the occurrence was generated for. */
+export type OccurrenceOf = { id: string; date: string };
+
+/** Which occurrences an edit or delete applies to. */
+export type SeriesScope = "this" | "following" | "all";
+
+/**
+ * Prices an occurrence for its own date and times (priceEvent() with the current rules). The series
+ * row's stored price is for its first date only, so occurrences on a weekend or in another season
+ * can cost something else.
+ */
+export type Pricer = (e: EventRow) => PriceSnapshot;
+
+/** Upper bound on occurrences generated for one series. */
+export const MAX_OCCURRENCES = 5000;
+
+const FREQ: Record<Frequency, RRule["freq"]> = { daily: "DAILY", weekly: "WEEKLY", monthly: "MONTHLY" };
+
+const weekdayOf = (date: string) => parseTime(date, "00:00").getDay();
+function addDays(date: string, n: number) {
+  const d = parseTime(date, "00:00");
+  d.setDate(d.getDate() + n);
+  return fmtDate(d);
+}
+const prevDay = (date: string) => addDays(date, -1);
+const daysBetween = (a: string, b: string) => Math.round((parseTime(b, "00:00").getTime() - parseTime(a, "00:00").getTime()) / 86_400_000);
+
+export function newSeries(date: string): Series {
+  return { freq: "weekly", interval: 1, ...(date ? { weekdays: [weekdayOf(date)] } : {}) };
+}
+
+export function toRRule(s: Series): RRule {
+  return {
+    freq: FREQ[s.freq],
+    interval: Math.max(1, s.interval || 1),
+    ...(s.count ? { count: s.count } : {}),
+    ...(s.freq === "weekly" && s.weekdays?.length ? { byDay: s.weekdays.map((wd) => ({ n: 0, wd })) } : {}),
+    wkst: 1,
+  };
+}
+
+/** RFC 5545 RRULE value for the series; UNTIL is left to the caller since it depends on how DTSTART is written. */
+export function rruleText(s: Series) {
+  const r = toRRule(s);
+  const parts = [`FREQ=${r.freq}`, `INTERVAL=${r.interval}`];
+  if (r.byDay) parts.push(`BYDAY=${r.byDay.map((b) => ["SU", "MO", "TU", "WE", "TH", "FR", "SA"][b.wd]).join(",")}`);
+  if (r.count) parts.push(`COUNT=${r.count}`);
+  return parts.join(";");
+}
+
+/**
+ * Occurrence dates of the series row from `from` up to `to` (both inclusive), skipped ones included.
+ * Earlier dates are walked past without counting towards MAX_OCCURRENCES, except those with their
+ * own changes, which may have moved into the range.
+ */
+export function seriesDates(master: EventRow, to: string, from = ""): string[] {
+  const s = master.series;
+  if (!s || !master.date) return [];
+  const [y, m, d] = master.date.split("-").map(Number);
+  const last = s.until && s.until < to ? s.until : to;
+  // at most one period a day to walk past
+  const behind = from > master.date ? daysBetween(master.date, from) : 0;
+  const out: string[] = [];
+  let n = 0;
+  for (const ymd of occurrences({ y, m, d }, toRRule(s), 20_000 + behind)) {
+    const key = ymdKey(ymd);
+    if (key > last) break;
+    if (key < from) {
+      if (s.overrides?.[key]) out.push(key);
+      continue;
+    }
+    if (++n > MAX_OCCURRENCES) break;
+    out.push(key);
+  }
+  return out;
+}
+
+/** The occurrence as the rule alone generates it, at the time and length of the series row, not yet priced. */
+function generated(master: EventRow, date: string): EventRow {
+  const row: EventRow = { ...moveEvent(master, date, master.start), id: `${master.id}@${date}`, occurrenceOf: { id: master.id!, date } };
+  delete row.series;
+  delete row.price;
+  // a series on hold holds every occurrence for the same time ahead of its date as the first one
+  if (master.holdUntil) row.holdUntil = addDays(master.holdUntil, daysBetween(master.date, date));
+  return row;
+}
+
+/**
+ * One occurrence with its own changes applied. A price stored for the occurrence (it was edited or
+ * recalculated on its own) is kept; otherwise, when the series is priced at all, `price` prices it
+ * for its date and times, and without `price` it falls back to its rates like an unpriced event.
+ */
+export function occurrenceRow(master: EventRow, date: string, price?: Pricer): EventRow {
+  const row = { ...generated(master, date), ...master.series?.overrides?.[date] };
+  if (!row.price && master.price && price) row.price = price(row);
+  return row;
+}
+
+/** Occurrences of `master` touching from..to, skips left out and overrides applied. */
+export function occurrencesOf(master: EventRow, from: string, to: string, price?: Pricer): EventRow[] {
+  const s = master.series;
+  if (!s || !to) return [];
+  // an occurrence moved from after the range into it still belongs here
+  const moved = Object.keys(s.overrides || {}).filter((k) => k > to).sort().pop();
+  const skip = new Set(s.skip || []);
+  // occurrences starting before the range can last into it
+  const span = master.endDate && master.endDate > master.date ? daysBetween(master.date, master.endDate) : 0;
+  return seriesDates(master, moved || to, from ? addDays(from, -span) : "")
+    .filter((d) => !skip.has(d))
+    .map((d) => occurrenceRow(master, d, price))
+    .filter((e) => overlapsRange(e, from, to));
+}
+
+/** Every row with the series among them expanded into their occurrences over from..to. */
+export function expandSeries(events: EventRow[], from: string, to: string, price?: Pricer): EventRow[] {
+  return events.flatMap((e) => (e.series ? occurrencesOf(e, from, to, price) : [e]));
+}
+
+/** Every occurrence of every series, for lifetime figures; series without an end (until or count) stop at `open`. */
+export function expandAll(events: EventRow[], open: string, price?: Pricer): EventRow[] {
+  const last = (e: EventRow) => e.series!.until || (e.series!.count ? seriesDates(e, "9999-12-31").pop() || e.date : open);
+  return events.flatMap((e) => (e.series ? occurrencesOf(e, e.date, last(e), price) : [e]));
+}
+
+/** Fields of `row` that differ from the generated occurrence; what gets stored for an edit of "this" one. */
+function overrideOf(base: EventRow, row: EventRow): Partial<EventRow> {
+  const out: Partial<EventRow> = {};
+  const keys = new Set([...Object.keys(base), ...Object.keys(row)] as (keyof EventRow)[]);
+  for (const k of keys) {
+    if (k === "id" || k === "series" || k === "occurrenceOf") continue;
+    if (JSON.stringify(base[k]) !== JSON.stringify(row[k])) Object.assign(out, { [k]: row[k] });
+  }
+  return out;
+}
+
+const withRule = (master: EventRow, s: Series): EventRow => {
+  if (!s.skip?.length) delete s.skip;
+  if (!s.overrides || !Object.keys(s.overrides).length) delete s.overrides;
+  return { ...master, series: s };
+};
+
+/** Same price apart from when it was worked out. */
+const samePrice = (a: PriceSnapshot, b: PriceSnapshot) => JSON.stringify({ ...a, computedAt: "" }) === JSON.stringify({ ...b, computedAt: "" });
+
+/**
+ * The series with the occurrence of `date` changed to look like `row`. A price is only stored for it
+ * when set on purpose: left as it was shown, or as the rules give it, it keeps following `price` for
+ * the occurrence's (maybe new) date and times.
+ */
+export function editOccurrence(master: EventRow, date: string, row: EventRow, price?: Pricer): EventRow {
+  const overrides = { ...master.series!.overrides };
+  const base = generated(master, date);
+  if (row.price && price && !overrides[date]?.price) {
+    const shown = occurrenceRow(master, date, price).price;
+    if (samePrice(row.price, price(row)) || (shown && samePrice(row.price, shown))) base.price = row.price;
+  }
+  const diff = overrideOf(base, row);
+  if (Object.keys(diff).length) overrides[date] = diff;
+  else delete overrides[date];
+  return withRule(master, { ...master.series!, overrides });
+}
+
+/**
+ * "Recalculate prices" for the occurrences on `dates`: prices stored for single occurrences are
+ * dropped, so they are priced by the current rules like the rest of the series.
+ */
+export function repriceOccurrences(master: EventRow, dates: string[]): EventRow {
+  const overrides = { ...master.series!.overrides };
+  for (const d of dates) {
+    if (!overrides[d]?.price) continue;
+    const rest = { ...overrides[d] };
+    delete rest.price;
+    if (Object.keys(rest).length) overrides[d] = rest;
+    else delete overrides[d];
+  }
+  return withRule(master, { ...master.series!, overrides });
+}
+
+/** The series without the occurrence of `date`. */
+export function skipOccurrence(master: EventRow, date: string): EventRow {
+  const overrides = { ...master.series!.overrides };
+  delete overrides[date];
+  return withRule(master, { ...master.series!, skip: [...new Set([...(master.series!.skip || []), date])].sort(), overrides });
+}
+
+/** The series ending before the occurrence of `date`, or null when nothing is left of it. */
+export function endBefore(master: EventRow, date: string): EventRow | null {
+  if (date <= master.date) return null;
+  const s = master.series!;
+  const until = prevDay(date);
+  const keep = (k: string) => k <= until;
+  return withRule(master, {
+    ...s,
+    until,
+    ...(s.count ? { count: seriesDates(master, until).length } : {}),
+    skip: (s.skip || []).filter(keep),
+    overrides: Object.fromEntries(Object.entries(s.overrides || {}).filter(([k]) => keep(k))),
+  });
+}
+
+/**
+ * "This and following": the series is cut before `date` and a new series starts with `row`, carrying
+ * the rule from `row.series` (none makes it a one-off). A count left as it was keeps counting from the
+ * original first date.
+ */
+export function splitSeries(master: EventRow, date: string, row: EventRow, newId: string): [EventRow | null, EventRow] {
+  const head = endBefore(master, date);
+  const tail: EventRow = { ...row, id: newId };
+  delete tail.occurrenceOf;
+  const s = master.series!, rule = row.series;
+  if (!rule) return [head, tail];
+  const before = seriesDates(master, prevDay(date)).length;
+  const dates = new Set(seriesDates({ ...tail, series: rule }, "9999-12-31").slice(0, MAX_OCCURRENCES));
+  const later = (k: string) => k > date && dates.has(k);
+  return [
+    head,
+    withRule(tail, {
+      ...rule,
+      ...(rule.count && rule.count === s.count ? { count: Math.max(1, s.count - before) } : {}),
+      skip: (s.skip || []).filter(later),
+      overrides: Object.fromEntries(Object.entries(s.overrides || {}).filter(([k]) => later(k))),
+    }),
+  ];
+}
+
+/**
+ * "All": the fields and rule of `row` for the whole series, which keeps its first date and its
+ * per-occurrence changes. Without a rule in `row` the series becomes a one-off on its first date.
+ * The price of another occurrence is re-worked with `price` for the first date.
+ */
+export function editSeries(master: EventRow, row: EventRow, price?: Pricer): EventRow {
+  const moved = moveEvent({ ...row }, master.date, row.start);
+  const next: EventRow = { ...row, id: master.id, date: moved.date, endDate: moved.endDate };
+  delete next.occurrenceOf;
+  if (next.price && price && row.date !== next.date) next.price = price(next);
+  if (row.holdUntil && row.occurrenceOf) next.holdUntil = addDays(row.holdUntil, daysBetween(row.occurrenceOf.date, master.date));
+  if (!row.series) return next;
+  const s = master.series!;
+  return withRule(next, { ...row.series, skip: s.skip, overrides: s.overrides });
+}
+
+/** "Every 2 weeks on Mon, Wed · 10 times" */
+export function describeSeries(s: Series) {
+  const unit = { daily: "day", weekly: "week", monthly: "month" }[s.freq];
+  const every = s.interval > 1 ? `Every ${s.interval} ${unit}s` : `Every ${unit}`;
+  const days = s.freq === "weekly" && s.weekdays?.length
+    ? ` on ${[...s.weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map((d) => ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"][d]).join(", ")}`
+    : "";
+  const end = s.count ? ` · ${s.count} times` : s.until ? ` · until ${s.until}` : "";
+  return every + days + end;
+}
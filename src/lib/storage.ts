@@ -0,0 +1,188 @@
+import type { EventRow } from "./events";
+import { dedupeById } from "./merge";
+import { normalizePolicy, type CancelPolicy } from "./cancellation";
+import { normalizeCatering, type CateringItem } from "./catering";
+import { normalizeClients, type Client } from "./clients";
+import { normalizeProbabilities, type Probabilities } from "./forecast";
+import { normalizeJournal, normalizeSnapshots, type Journal, type Snapshot } from "./journal";
+import { emptySync, normalizeSync, type SyncState } from "./sync";
+import { normalizePricing, type PricingRules } from "./pricing";
+import { normalizeCatalog, type Catalog } from "./rooms";
+import { normalizeColumns, type Column } from "./table";
+import { migrateRow, readEnvelope, toEnvelope, validateRows, type RowIssue } from "./schema";
+
+/** -------------------- Local persistence -------------------- */
+/** Holds a versioned envelope, so later shape changes migrate in place instead of needing a new key. */
+const STORAGE_KEY = "events_tracker";
+/** Earlier keys and the schema version of what they hold, newest first. */
+const OLD_KEYS: [string, number][] = [
+  ["events_tracker_v4", 4],
+  ["events_tracker_v3", 3],
+  ["events", 1], // legacy index.html page
+];
+/** Raw copies of rows that failed validation, so nothing is lost silently. */
+const REJECTED_KEY = "events_tracker_rejected";
+const CATALOG_KEY = "events_tracker_rooms";
+const PRICING_KEY = "events_tracker_pricing";
+const POLICY_KEY = "events_tracker_cancellation";
+const FORECAST_KEY = "events_tracker_forecast";
+const JOURNAL_KEY = "events_tracker_journal";
+const SNAPSHOTS_KEY = "events_tracker_snapshots";
+const CLIENTS_KEY = "events_tracker_clients";
+const CATERING_KEY = "events_tracker_catering";
+const COLUMNS_KEY = "events_tracker_columns";
+/** Shared by all tabs: every read-modify-write of the sync queue goes through this key. */
+const SYNC_KEY = "events_tracker_sync";
+
+function parse(raw: string | null): unknown {
+  if (!raw) return undefined;
+  try { return JSON.parse(raw); } catch { return undefined; }
+}
+
+export function loadEvents(): { events: EventRow[]; issues: RowIssue[] } {
+  const current = parse(localStorage.getItem(STORAGE_KEY));
+  if (current !== undefined) {
+    const { rows, issues } = readEnvelope(current);
+    keepRejected(current, issues);
+    return { events: rows, issues };
+  }
+  // first run on this version: pull in everything older keys still hold
+  const raw: unknown[] = [], upgraded: unknown[] = [];
+  for (const [key, version] of OLD_KEYS) {
+    const rows = parse(localStorage.getItem(key));
+    if (!Array.isArray(rows)) continue;
+    raw.push(...rows);
+    for (const r of rows) upgraded.push(r && typeof r === "object" ? migrateRow(r as Record<string, unknown>, version) : r);
+  }
+  const { rows, issues } = validateRows(upgraded);
+  keepRejected(raw, issues);
+  // newer keys come first, so on id clashes keep the first copy
+  return { events: dedupeById(rows.slice().reverse()).reverse(), issues };
+}
+
+export function keepRejected(data: unknown, issues: RowIssue[]) {
+  const rows = Array.isArray(data) ? data : (data as { events?: unknown[] })?.events;
+  const bad = issues.filter((i) => i.errors.length && i.index >= 0).map((i) => rows?.[i.index]);
+  if (bad.length) localStorage.setItem(REJECTED_KEY, JSON.stringify(bad));
+}
+
+/** Events moved to IndexedDB (db.ts); this key is only written where IndexedDB is unavailable. */
+export function saveEvents(events: EventRow[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(toEnvelope(events)));
+}
+
+/** The saved room catalog, or null when there is none yet. */
+export function loadCatalog(): Catalog | null {
+  return normalizeCatalog(parse(localStorage.getItem(CATALOG_KEY)));
+}
+
+export function saveCatalog(catalog: Catalog) {
+  localStorage.setItem(CATALOG_KEY, JSON.stringify(catalog));
+}
+
+/** The saved pricing rules, or null when there are none yet. */
+export function loadPricing(): PricingRules | null {
+  return normalizePricing(parse(localStorage.getItem(PRICING_KEY)));
+}
+
+export function savePricing(rules: PricingRules) {
+  localStorage.setItem(PRICING_KEY, JSON.stringify(rules));
+}
+
+/** The saved cancellation policy, or null when there is none yet. */
+export function loadPolicy(): CancelPolicy | null {
+  return normalizePolicy(parse(localStorage.getItem(POLICY_KEY)));
+}
+
+export function savePolicy(policy: CancelPolicy) {
+  localStorage.setItem(POLICY_KEY, JSON.stringify(policy));
+}
+
+/** The saved pipeline probabilities, or null when there are none yet. */
+export function loadProbabilities(): Probabilities | null {
+  return normalizeProbabilities(parse(localStorage.getItem(FORECAST_KEY)));
+}
+
+export function saveProbabilities(probs: Probabilities) {
+  localStorage.setItem(FORECAST_KEY, JSON.stringify(probs));
+}
+
+/** The saved client records, or null when there are none yet. */
+export function loadClients(): Client[] | null {
+  return normalizeClients(parse(localStorage.getItem(CLIENTS_KEY)));
+}
+
+export function saveClients(clients: Client[]) {
+  localStorage.setItem(CLIENTS_KEY, JSON.stringify(clients));
+}
+
+/** Calls `fn` whenever another tab saves the client list; returns the unsubscribe function. */
+export function onClientsSaved(fn: () => void) {
+  const onStorage = (ev: StorageEvent) => {
+    if (ev.key === CLIENTS_KEY) fn();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => window.removeEventListener("storage", onStorage);
+}
+
+/** The saved catering catalog, or null when there is none yet. */
+export function loadCatering(): CateringItem[] | null {
+  return normalizeCatering(parse(localStorage.getItem(CATERING_KEY)));
+}
+
+export function saveCatering(items: CateringItem[]) {
+  localStorage.setItem(CATERING_KEY, JSON.stringify(items));
+}
+
+/** Columns shown in the events table, or null when never chosen. */
+export function loadColumns(): Column[] | null {
+  return normalizeColumns(parse(localStorage.getItem(COLUMNS_KEY)));
+}
+
+export function saveColumns(cols: Column[]) {
+  localStorage.setItem(COLUMNS_KEY, JSON.stringify(cols));
+}
+
+/** The saved change journal, or null when there is none yet. */
+export function loadJournal(): Journal | null {
+  return normalizeJournal(parse(localStorage.getItem(JOURNAL_KEY)));
+}
+
+/**
+ * Writes as many of the newest items as fit: journal entries and snapshots hold whole events, so a
+ * big import can outgrow the storage quota. `encode(drop)` leaves out the `drop` oldest items.
+ */
+function saveNewest(key: string, count: number, encode: (drop: number) => unknown) {
+  for (let keep = count; ; keep = Math.floor(keep / 2)) {
+    try {
+      localStorage.setItem(key, JSON.stringify(encode(count - keep)));
+      return;
+    } catch {
+      if (!keep) return;
+    }
+  }
+}
+
+export function saveJournal(j: Journal) {
+  saveNewest(JOURNAL_KEY, j.entries.length, (drop) => ({ ...j, entries: j.entries.slice(drop), cursor: Math.max(0, j.cursor - drop) }));
+}
+
+/** Saved snapshots, newest first; their events go through the same migration as the main list. */
+export function loadSnapshots(): Snapshot[] {
+  const raw = parse(localStorage.getItem(SNAPSHOTS_KEY));
+  if (!Array.isArray(raw)) return [];
+  return normalizeSnapshots(raw.map((s) => (s && typeof s === "object" ? { ...s, events: readEnvelope(s.events).rows } : s)));
+}
+
+export function saveSnapshots(list: Snapshot[]) {
+  saveNewest(SNAPSHOTS_KEY, list.length, (drop) => list.slice(0, list.length - drop).map((s) => ({ ...s, events: toEnvelope(s.events) })));
+}
+
+/** Sync settings, queue and server versions; not syncing when there is no url. */
+export function loadSync(): SyncState {
+  return normalizeSync(parse(localStorage.getItem(SYNC_KEY))) || emptySync();
+}
+
+export function saveSync(s: SyncState) {
+  localStorage.setItem(SYNC_KEY, JSON.stringify(s));
+}
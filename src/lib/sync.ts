@@ -0,0 +1,119 @@
+import type { EventRow } from "./events";
+import type { Conflict } from "./db";
+import type { RowChange } from "./journal";
+
+/** -------------------- Server sync -------------------- */
+/**
+ * Offline-first sync against server/sync-server.mjs. Local changes are queued (the latest version
+ * of each event wins) and pushed with the server version they were based on; a push the server
+ * rejects because someone else changed the event first comes back as a conflict.
+ */
+export type SyncState = {
+  url: string;
+  token: string;
+  /** Server sequence number of the last pull. */
+  since: number;
+  /** Server version of every event as last pushed or pulled. */
+  versions: Record<string, number>;
+  /** Local changes not yet accepted by the server; null = deleted. */
+  queue: Record<string, EventRow | null>;
+  lastSync: string; // ISO timestamp
+};
+
+export const emptySync = (url = "", token = ""): SyncState => ({ url, token, since: 0, versions: {}, queue: {}, lastSync: "" });
+
+export function enqueue(s: SyncState, changes: RowChange[]): SyncState {
+  if (!s.url || !changes.length) return s;
+  const queue = { ...s.queue };
+  for (const c of changes) queue[c.id] = c.after ?? null;
+  return { ...s, queue };
+}
+
+/** What the server answered to one push + pull round. */
+export type Exchange = {
+  pushed: Record<string, EventRow | null>;
+  applied: { id: string; version: number }[];
+  conflicts: { id: string; version: number; row: EventRow | null }[];
+  changes: { id: string; version: number; row: EventRow | null }[];
+  seq: number;
+};
+
+const TIMEOUT_MS = 15_000;
+
+async function call<T>(s: SyncState, path: string, body?: unknown): Promise<T> {
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), TIMEOUT_MS);
+  try {
+    const res = await fetch(`${s.url.replace(/\/+$/, "")}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers: { "Content-Type": "application/json", ...(s.token ? { Authorization: `Bearer ${s.token}` } : {}) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: ctrl.signal,
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || `server answered ${res.status}`);
+    return data as T;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Pushes the queue, then pulls everything the server got since the last pull. */
+export async function exchange(s: SyncState): Promise<Exchange> {
+  const pushed = { ...s.queue };
+  const ids = Object.keys(pushed);
+  let applied: Exchange["applied"] = [], conflicts: Exchange["conflicts"] = [];
+  if (ids.length) {
+    const changes = ids.map((id) => ({ id, base: s.versions[id] || 0, row: pushed[id] }));
+    ({ applied, conflicts } = await call<Pick<Exchange, "applied" | "conflicts">>(s, "/api/push", { changes }));
+  }
+  const pulled = await call<{ seq: number; changes: Exchange["changes"] }>(s, `/api/changes?since=${s.since}`);
+  return { pushed, applied, conflicts, changes: pulled.changes, seq: pulled.seq };
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Folds a server answer into the (freshly re-read) sync state: accepted changes leave the queue
+ * unless they were edited again meanwhile, rejected ones become conflicts, and pulled events that
+ * are newer than ours and not waiting in the queue come back as `incoming` for the local store.
+ */
+export function settle(s: SyncState, r: Exchange) {
+  const versions = { ...s.versions }, queue = { ...s.queue };
+  const conflicts: Conflict[] = [];
+  for (const a of r.applied) {
+    versions[a.id] = a.version;
+    if (a.id in queue && same(queue[a.id], r.pushed[a.id])) delete queue[a.id];
+  }
+  for (const c of r.conflicts) {
+    versions[c.id] = c.version;
+    conflicts.push({ id: c.id, mine: queue[c.id] ?? undefined, theirs: c.row ?? undefined, server: true });
+    delete queue[c.id];
+  }
+  const incoming: { id: string; row?: EventRow }[] = [];
+  for (const c of r.changes) {
+    if (c.id in queue || (versions[c.id] || 0) >= c.version) continue;
+    versions[c.id] = c.version;
+    incoming.push({ id: c.id, row: c.row ?? undefined });
+  }
+  return { state: { ...s, versions, queue, since: r.seq, lastSync: new Date().toISOString() }, incoming, conflicts };
+}
+
+/** Runs `fn` while no other tab syncs, where the browser supports Web Locks. */
+export function exclusively<T>(fn: () => Promise<T>) {
+  return navigator.locks ? navigator.locks.request("events_tracker_sync", fn) : fn();
+}
+
+export function normalizeSync(raw: unknown): SyncState | null {
+  if (!raw || typeof raw !== "object") return null;
+  const s = raw as Partial<SyncState>;
+  const obj = (v: unknown) => (v && typeof v === "object" && !Array.isArray(v) ? v : {});
+  return {
+    url: typeof s.url === "string" ? s.url : "",
+    token: typeof s.token === "string" ? s.token : "",
+    since: typeof s.since === "number" && s.since >= 0 ? s.since : 0,
+    versions: obj(s.versions) as SyncState["versions"],
+    queue: obj(s.queue) as SyncState["queue"],
+    lastSync: typeof s.lastSync === "string" ? s.lastSync : "",
+  };
+}
@@ -0,0 +1,115 @@
+import { STATUSES, durationHrs, eventEnd, eventStart, type EventRow } from "./events";
+import type { CancelPolicy } from "./cancellation";
+import type { PaymentState } from "./payments";
+import { lostFor, paymentOf, retainedFor, revenueFor } from "./reports";
+
+/** -------------------- Events table -------------------- */
+/**
+ * Per-event values the table filters, sorts and shows, worked out once per change of the events
+ * (or the policy) instead of on every render and keystroke.
+ */
+export type TableRow = {
+  e: EventRow;
+  start: number; // ms
+  end: number;   // ms, never before start
+  hours: number;
+  revenue: number;
+  lost: number;
+  retained: number;
+  payment: ReturnType<typeof paymentOf>;
+  client: string; // organisation of the linked client
+  /** Lower-cased name, notes, cancel reason and client, for the search box. */
+  text: string;
+};
+
+export function tableRow(e: EventRow, policy: CancelPolicy, client = ""): TableRow {
+  const start = eventStart(e).getTime();
+  return {
+    e,
+    start,
+    end: Math.max(start, eventEnd(e).getTime()),
+    hours: durationHrs(e),
+    revenue: revenueFor(e),
+    lost: lostFor(e, policy),
+    retained: retainedFor(e, policy),
+    payment: paymentOf(e, policy),
+    client,
+    text: [e.name, e.notes, e.cancelReason, client].join("\n").toLowerCase(),
+  };
+}
+
+export const COLUMNS = [
+  { key: "date", label: "Date" },
+  { key: "start", label: "Start" },
+  { key: "end", label: "End" },
+  { key: "name", label: "Name" },
+  { key: "rooms", label: "Rooms" },
+  { key: "status", label: "Status" },
+  { key: "guests", label: "Guests" },
+  { key: "hours", label: "Hours" },
+  { key: "revenue", label: "Revenue €" },
+  { key: "lost", label: "Net lost €" },
+  { key: "payment", label: "Payment" },
+  { key: "notes", label: "Notes" },
+] as const;
+export type Column = (typeof COLUMNS)[number]["key"];
+
+/** Right-aligned, and sorted largest first on the first click. */
+export const NUMERIC: Column[] = ["guests", "hours", "revenue", "lost"];
+
+export const DEFAULT_COLUMNS: Column[] = COLUMNS.map((c) => c.key);
+
+export type SortKey = { col: Column; dir: 1 | -1 };
+export const DEFAULT_SORT: SortKey[] = [{ col: "date", dir: 1 }];
+
+// most urgent first
+const PAYMENT_ORDER: PaymentState[] = ["overdue", "unpaid", "partial", "paid"];
+
+function sortValue(r: TableRow, col: Column): number | string {
+  switch (col) {
+    case "date": return r.start;
+    case "start": return r.e.start;
+    case "end": return r.end;
+    case "name": return (r.e.name || "").toLowerCase();
+    case "rooms": return r.e.rooms.join(" ").toLowerCase();
+    case "status": return STATUSES.indexOf(r.e.status);
+    case "guests": return r.e.guests || 0;
+    case "hours": return r.hours;
+    case "revenue": return r.revenue;
+    case "lost": return r.lost;
+    case "payment": return PAYMENT_ORDER.indexOf(r.payment.state) * 1e9 + r.payment.balance;
+    case "notes": return (r.e.notes || "").toLowerCase();
+  }
+}
+
+/** Rows ordered by the keys in turn; ties fall back to the start time. */
+export function sortRows(rows: TableRow[], keys: SortKey[]): TableRow[] {
+  const cols = keys.map((k) => ({ ...k, values: new Map(rows.map((r) => [r, sortValue(r, k.col)])) }));
+  return [...rows].sort((a, b) => {
+    for (const { values, dir } of cols) {
+      const x = values.get(a)!, y = values.get(b)!;
+      if (x !== y) return (x < y ? -1 : 1) * dir;
+    }
+    return a.start - b.start;
+  });
+}
+
+/**
+ * A click on a header: sorts by that column alone, or flips its direction when it already leads.
+ * With `add` (shift-click) the column is appended as a further key, or flipped where it is.
+ */
+export function toggleSort(keys: SortKey[], col: Column, add: boolean): SortKey[] {
+  const at = keys.findIndex((k) => k.col === col);
+  const first: 1 | -1 = NUMERIC.includes(col) ? -1 : 1;
+  if (add) {
+    return at < 0 ? [...keys, { col, dir: first }] : keys.map((k, i) => (i === at ? { col, dir: k.dir === 1 ? -1 : 1 } : k));
+  }
+  return [{ col, dir: at === 0 && keys.length === 1 ? (keys[0].dir === 1 ? -1 : 1) : first }];
+}
+
+/** Visible columns as stored; unknown ones are dropped, null when nothing usable is left. */
+export function normalizeColumns(raw: unknown): Column[] | null {
+  if (!Array.isArray(raw)) return null;
+  const cols = COLUMNS.map((c) => c.key).filter((k) => raw.includes(k));
+  return cols.length ? cols : null;
+}
@@ -0,0 +1,106 @@
+import { fmtDate, parseTime, type EventRow, type Status } from "./events";
+import { editOccurrence, occurrencesOf, type Pricer } from "./series";
+
+/** -------------------- Transitions -------------------- */
+/**
+ * Where an event may go from each status. "Free" is an open slot, "Taken" is final; a canceled
+ * booking can be reinstated.
+ */
+export const TRANSITIONS: Record<Status, Status[]> = {
+  Free: ["On hold", "Booked"],
+  "On hold": ["Booked", "Free", "Canceled"],
+  Booked: ["Taken", "Canceled"],
+  Taken: [],
+  Canceled: ["On hold", "Booked"],
+};
+
+export const canMove = (from: Status, to: Status) => from === to || TRANSITIONS[from].includes(to);
+
+/** Statuses offered for an event currently in `from` (itself first). New events may start anywhere. */
+export const nextStatuses = (from?: Status): Status[] => (from ? [from, ...TRANSITIONS[from]] : ["Free", "On hold", "Booked", "Taken"]);
+
+/** -------------------- History -------------------- */
+/** One status change; `from` is missing for the status an event was created with. */
+export type StatusChange = { at: string; from?: Status; to: Status; comment?: string };
+
+/** Days a new hold keeps the slot before it is released. */
+export const HOLD_DAYS = 7;
+
+/** Comment on changes made by the app rather than by hand. */
+export const EXPIRED = "Hold expired";
+
+export function holdDefault(today = new Date()) {
+  const d = new Date(today);
+  d.setDate(d.getDate() + HOLD_DAYS);
+  return fmtDate(d);
+}
+
+/** `e` moved to `to`, with the change appended to its history. Holds lose their expiry when left. */
+export function changeStatus(e: EventRow, to: Status, comment = "", at = new Date().toISOString()): EventRow {
+  const entry: StatusChange = { at, from: e.status, to, ...(comment.trim() ? { comment: comment.trim() } : {}) };
+  const row: EventRow = { ...e, status: to, history: [...(e.history || []), entry] };
+  if (to !== "On hold") delete row.holdUntil;
+  return row;
+}
+
+/** True once the last day of a hold has passed. A series row has no hold of its own, its occurrences do. */
+export const holdExpired = (e: EventRow, today = fmtDate(new Date())) => !e.series && e.status === "On hold" && !!e.holdUntil && e.holdUntil < today;
+
+/** Occurrences of a series whose holds ran out: held by the series row or put on hold one by one. */
+function expiredOccurrences(master: EventRow, today: string) {
+  const s = master.series!;
+  const held = Object.keys(s.overrides || {}).filter((d) => s.overrides![d].status === "On hold");
+  if (master.status !== "On hold" && !held.length) return [];
+  // each occurrence is held as long ahead of its date as the first one, so later ones haven't run out yet
+  let last = held.sort().pop() || "";
+  if (master.status === "On hold" && master.holdUntil) {
+    const lead = Math.round((parseTime(master.date, "00:00").getTime() - parseTime(master.holdUntil, "00:00").getTime()) / 86_400_000);
+    const d = parseTime(today, "00:00");
+    d.setDate(d.getDate() + lead);
+    const until = fmtDate(d);
+    if (until > last) last = until;
+  }
+  return last ? occurrencesOf(master, master.date, last).filter((e) => e.status === "On hold" && !!e.holdUntil && e.holdUntil < today) : [];
+}
+
+/**
+ * Releases expired holds back to "Free", occurrence by occurrence for series; returns the same array
+ * when nothing expired. `price` goes to editOccurrence().
+ */
+export function releaseExpired(events: EventRow[], today = fmtDate(new Date()), price?: Pricer) {
+  const expired = new Map(events.filter((e) => e.series).map((e) => [e.id, expiredOccurrences(e, today)]));
+  if (!events.some((e) => holdExpired(e, today) || expired.get(e.id)?.length)) return events;
+  const at = new Date().toISOString();
+  return events.map((e) => {
+    if (holdExpired(e, today)) return changeStatus(e, "Free", EXPIRED, at);
+    let row = e;
+    for (const o of expired.get(e.id) || []) row = editOccurrence(row, o.occurrenceOf!.date, changeStatus(o, "Free", EXPIRED, at), price);
+    return row;
+  });
+}
+
+/** -------------------- Hold conversion -------------------- */
+export type HoldReport = { placed: number; converted: number; expired: number; released: number; canceled: number; rate: number };
+
+/**
+ * What happened to holds between from..to (by the date of the status change, not of the event):
+ * how many were placed, and how many of the ones that ended were converted into bookings.
+ */
+export function holdReport(events: EventRow[], from: string, to: string): HoldReport {
+  const r: HoldReport = { placed: 0, converted: 0, expired: 0, released: 0, canceled: 0, rate: 0 };
+  for (const e of events) {
+    for (const h of e.history || []) {
+      const day = fmtDate(new Date(h.at));
+      if ((from && day < from) || (to && day > to)) continue;
+      if (h.to === "On hold" && h.from !== "On hold") r.placed++;
+      if (h.from !== "On hold") continue;
+      if (h.to === "Booked" || h.to === "Taken") r.converted++;
+      else if (h.to === "Free" && h.comment === EXPIRED) r.expired++;
+      else if (h.to === "Free") r.released++;
+      else if (h.to === "Canceled") r.canceled++;
+    }
+  }
+  const ended = r.converted + r.expired + r.released + r.canceled;
+  r.rate = ended ? r.converted / ended : 0;
+  return r;
+}